@@ -3,7 +3,7 @@ import { defineBuildConfig } from "unbuild";
 export default defineBuildConfig({
   clean: true,
   declaration: true,
-  entries: ["src/index.ts"],
+  entries: ["src/index.ts", "src/testing/index.ts"],
   outDir: "dist",
   rollup: {
     esbuild: {
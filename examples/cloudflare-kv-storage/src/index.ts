@@ -53,6 +53,7 @@ app.on(["PATCH", "POST"], "/api/*", async (c, next) => {
     },
     storage: {
       adapter: cloudflareKVAdapter,
+      retention: 60 * 60 * 1000,
     },
   });
 
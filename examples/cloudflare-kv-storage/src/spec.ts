@@ -2,7 +2,7 @@ import type { IdempotentRequestServerSpecification } from "universal-idempotent-
 
 import { sha256 } from "@oslojs/crypto/sha2";
 import { encodeHexLowerCase } from "@oslojs/encoding";
-import * as v from "valibot";
+import { createUuidKeyValidator } from "universal-idempotent-request";
 
 export const simpleSpecification: IdempotentRequestServerSpecification = {
   getFingerprint: async (request) => {
@@ -16,9 +16,7 @@ export const simpleSpecification: IdempotentRequestServerSpecification = {
     return `${request.method}-${path}-${idempotencyKey}`;
   },
 
-  satisfiesKeySpec(idempotencyKey) {
-    return v.safeParse(v.pipe(v.string(), v.uuid()), idempotencyKey).success;
-  },
+  satisfiesKeySpec: createUuidKeyValidator(),
 };
 
 /**
@@ -3,29 +3,40 @@ import type {
   IdempotentRequestStorageAdapter,
 } from "universal-idempotent-request";
 
-const getExpirationEpoch = (ttlSeconds: number) => {
+/**
+ * Fallback TTL for requests without `expiresAt`
+ */
+const TTL_ONE_HOUR = 60 * 60;
+
+/**
+ * KV requires the expiration in seconds since the epoch.
+ */
+const getExpirationEpoch = (request: IdempotentRequest) => {
+  if (request.expiresAt != null) {
+    return Math.ceil(request.expiresAt.getTime() / 1000);
+  }
+
   const nowEpoch = Date.now() / 1000;
-  return nowEpoch + ttlSeconds;
+  return Math.ceil(nowEpoch + TTL_ONE_HOUR);
 };
 
 export const createCloudflareKVStorageAdapter = (
   kv: KVNamespace,
 ): IdempotentRequestStorageAdapter => {
-  const TTL_ONE_HOUR = 60 * 60;
-
   return {
     async get(storageKey) {
+      // Dates are stored as strings in JSON, and they are revived by the middleware.
       return await kv.get<IdempotentRequest>(storageKey, "json");
     },
     async save(request) {
-      const sunset = getExpirationEpoch(TTL_ONE_HOUR);
-
       await kv.put(request.storageKey, JSON.stringify(request), {
-        expiration: sunset,
+        expiration: getExpirationEpoch(request),
       });
     },
     async update(request) {
-      await kv.put(request.storageKey, JSON.stringify(request));
+      await kv.put(request.storageKey, JSON.stringify(request), {
+        expiration: getExpirationEpoch(request),
+      });
     },
   };
 };
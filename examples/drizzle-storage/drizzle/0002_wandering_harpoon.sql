@@ -0,0 +1 @@
+ALTER TABLE `idempotent_requests` ADD `lock_token` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `idempotent_requests` ADD `response_body_encoding` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `idempotent_requests` ADD `scope` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `idempotent_requests` ADD `request_query` text DEFAULT '' NOT NULL;
\ No newline at end of file
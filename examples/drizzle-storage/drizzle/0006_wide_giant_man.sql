@@ -0,0 +1 @@
+ALTER TABLE `idempotent_requests` ADD `expires_at` integer;
\ No newline at end of file
@@ -9,13 +9,18 @@ export const TB_idempotent_request = sqliteTable("idempotent_requests", {
   request_fingerprint: text(),
   request_method: text().notNull(),
   request_path: text().notNull(),
+  request_query: text().notNull().default(""),
+  scope: text(),
 
   created_at: int({ mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
+  expires_at: int({ mode: "timestamp" }),
+  lock_token: text(),
   locked_at: int({ mode: "timestamp" }),
 
   response_body: text(),
+  response_body_encoding: text({ enum: ["base64", "text"] }),
   response_headers: text({ mode: "json" }).$type<Record<string, string>>(),
   response_status: int(),
   response_status_text: text(),
@@ -1,4 +1,4 @@
-import { eq } from "drizzle-orm";
+import { and, asc, eq, gt, lte } from "drizzle-orm";
 import {
   createIdempotencyFingerprint,
   createStorageKey,
@@ -9,27 +9,58 @@ import type { database } from "../db";
 
 import { TB_idempotent_request } from "../db/schema";
 
-const isOutdatedRequest = (
-  request: typeof TB_idempotent_request.$inferSelect,
-) => {
-  return request.created_at.getTime() < Date.now() - 24 * 60 * 60 * 1000;
-};
-
 export const createSqliteDrizzleAdapter = (
   client: typeof database,
 ): IdempotentRequestStorageAdapter => {
   return {
+    async delete(storageKey) {
+      await client
+        .delete(TB_idempotent_request)
+        .where(eq(TB_idempotent_request.storage_key, storageKey));
+    },
+
+    async listExpired({ before, cursor, limit }) {
+      // Paginate by the ever-increasing ID, so that deleting listed requests does not shift pages.
+      const rows = await client
+        .select({
+          id: TB_idempotent_request.id,
+          storageKey: TB_idempotent_request.storage_key,
+        })
+        .from(TB_idempotent_request)
+        .where(
+          and(
+            lte(TB_idempotent_request.expires_at, before),
+            cursor == null
+              ? undefined
+              : gt(TB_idempotent_request.id, Number(cursor)),
+          ),
+        )
+        .orderBy(asc(TB_idempotent_request.id))
+        .limit(limit);
+
+      return {
+        cursor: rows.length < limit ? null : String(rows.at(-1)?.id),
+        storageKeys: rows.map((row) => createStorageKey(row.storageKey)),
+      };
+    },
+
     async save(request) {
       await client.insert(TB_idempotent_request).values({
+        created_at: request.createdAt,
+        expires_at: request.expiresAt,
         idempotency_key: request.idempotencyKey,
+        lock_token: null,
         locked_at: null,
         request_fingerprint: request.fingerprint,
         request_method: request.requestMethod,
         request_path: request.requestPath,
+        request_query: request.requestQuery,
         response_body: null,
+        response_body_encoding: null,
         response_headers: null,
         response_status: null,
         response_status_text: null,
+        scope: request.scope,
         storage_key: request.storageKey,
       });
     },
@@ -38,15 +69,22 @@ export const createSqliteDrizzleAdapter = (
       await client
         .update(TB_idempotent_request)
         .set({
+          created_at: request.createdAt,
+          expires_at: request.expiresAt,
           idempotency_key: request.idempotencyKey,
+          lock_token: request.lockToken,
           locked_at: request.lockedAt,
           request_fingerprint: request.fingerprint,
           request_method: request.requestMethod,
           request_path: request.requestPath,
-          response_body: request.response?.body,
-          response_headers: request.response?.headers,
-          response_status: request.response?.status,
-          response_status_text: request.response?.statusText,
+          request_query: request.requestQuery,
+          // Drizzle skips `undefined` values, so clear the response explicitly when the request has none.
+          response_body: request.response?.body ?? null,
+          response_body_encoding: request.response?.bodyEncoding ?? null,
+          response_headers: request.response?.headers ?? null,
+          response_status: request.response?.status ?? null,
+          response_status_text: request.response?.statusText ?? null,
+          scope: request.scope,
           storage_key: request.storageKey,
         })
         .where(eq(TB_idempotent_request.storage_key, request.storageKey));
@@ -63,23 +101,25 @@ export const createSqliteDrizzleAdapter = (
         return null;
       }
 
-      // return null if created_at is older than 24 hours
-      // You can clean up the old request at here or async in the background job
-      if (isOutdatedRequest(result)) {
-        return null;
-      }
+      // Expired requests are treated as absent by the middleware.
+      // They are cleaned up by `sweepExpiredIdempotentRequests` in the background.
 
-      if (result.locked_at != null) {
+      if (result.locked_at != null && result.lock_token != null) {
         return {
+          createdAt: result.created_at,
+          expiresAt: result.expires_at,
           fingerprint:
             result.request_fingerprint == null
               ? null
               : createIdempotencyFingerprint(result.request_fingerprint),
           idempotencyKey: result.idempotency_key,
           lockedAt: result.locked_at,
+          lockToken: result.lock_token,
           requestMethod: result.request_method,
           requestPath: result.request_path,
+          requestQuery: result.request_query,
           response: null,
+          scope: result.scope,
           storageKey: createStorageKey(result.storage_key),
         };
       }
@@ -91,34 +131,45 @@ export const createSqliteDrizzleAdapter = (
         result.response_headers == null
       ) {
         return {
+          createdAt: result.created_at,
+          expiresAt: result.expires_at,
           fingerprint:
             result.request_fingerprint == null
               ? null
               : createIdempotencyFingerprint(result.request_fingerprint),
           idempotencyKey: result.idempotency_key,
-          lockedAt: result.locked_at,
+          lockedAt: null,
+          lockToken: null,
           requestMethod: result.request_method,
           requestPath: result.request_path,
+          requestQuery: result.request_query,
           response: null,
+          scope: result.scope,
           storageKey: createStorageKey(result.storage_key),
         };
       }
 
       return {
+        createdAt: result.created_at,
+        expiresAt: result.expires_at,
         fingerprint:
           result.request_fingerprint == null
             ? null
             : createIdempotencyFingerprint(result.request_fingerprint),
         idempotencyKey: result.idempotency_key,
-        lockedAt: result.locked_at,
+        lockedAt: null,
+        lockToken: null,
         requestMethod: result.request_method,
         requestPath: result.request_path,
+        requestQuery: result.request_query,
         response: {
           body: result.response_body,
+          bodyEncoding: result.response_body_encoding ?? undefined,
           headers: result.response_headers,
           status: result.response_status,
           statusText: result.response_status_text,
         },
+        scope: result.scope,
         storageKey: createStorageKey(result.storage_key),
       };
     },
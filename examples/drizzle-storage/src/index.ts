@@ -1,9 +1,11 @@
 import { serve } from "@hono/node-server";
 import { Hono } from "hono";
+import { sweepExpiredIdempotentRequests } from "universal-idempotent-request";
 
 import type { DB } from "./db";
 
 import { database } from "./db";
+import { createSqliteDrizzleAdapter } from "./idempotent-request/storage";
 import { apiRoutes } from "./router/api";
 export type HonoConfig = {
   Bindings: Record<string, never>;
@@ -28,3 +30,20 @@ export const routes = app
 serve(app, (info) => {
   console.log(`Listening on http://localhost:${info.port}`);
 });
+
+// Delete expired idempotent requests every hour.
+setInterval(
+  () => {
+    sweepExpiredIdempotentRequests(createSqliteDrizzleAdapter(database))
+      .then(({ deleted, invalidStorageKeys }) => {
+        console.log(`Deleted ${deleted} expired idempotent requests`);
+        if (invalidStorageKeys.length > 0) {
+          console.warn("Invalid idempotent requests:", invalidStorageKeys);
+        }
+      })
+      .catch((error: unknown) => {
+        console.error(error);
+      });
+  },
+  60 * 60 * 1000,
+);
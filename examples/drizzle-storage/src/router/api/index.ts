@@ -38,6 +38,7 @@ apiRouter.on(["POST", "PATCH"], "*", async (c, next) => {
     },
     storage: {
       adapter: createSqliteDrizzleAdapter(client),
+      retention: 24 * 60 * 60 * 1000,
     },
   });
 
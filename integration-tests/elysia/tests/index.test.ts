@@ -3,9 +3,13 @@ import type {
   SetupAppArguments,
 } from "@repo/integration-tests-utils";
 
-import { runFrameworkIntegrationTest } from "@repo/integration-tests-utils";
+import {
+  createStreamingResponse,
+  runFrameworkIntegrationTest,
+} from "@repo/integration-tests-utils";
 import { createMiddleware } from "@universal-middleware/elysia";
 import { Elysia } from "elysia";
+import { handleIdempotentRequestError } from "universal-idempotent-request";
 
 class ElysiaTestAdapter implements FrameworkTestAdapter {
   name = "Elysia";
@@ -44,8 +48,26 @@ class ElysiaTestAdapter implements FrameworkTestAdapter {
           status: 200,
         });
       })
+      // Elysia does not route a path with a trailing slash to `/api/test`.
+      .post("/api/test/", () => {
+        return new Response(JSON.stringify({ message: "Test passed" }), {
+          status: 200,
+        });
+      })
       .post("/api/error", () => {
         return new Response("Internal Server Error", { status: 500 });
+      })
+      .post("/api/stream", () => createStreamingResponse())
+      .post("/api/throw", () => {
+        throw new Error("Route handler error");
+      })
+      .post("/api/unhandled-throw", () => {
+        throw new Error("Route handler error");
+      })
+      .onError(async (context) => {
+        if (context.path !== "/api/unhandled-throw") {
+          await handleIdempotentRequestError(context.getContext?.());
+        }
       });
   };
 }
@@ -4,12 +4,17 @@ import type {
 } from "@repo/integration-tests-utils";
 import type { App } from "h3";
 
-import { runFrameworkIntegrationTest } from "@repo/integration-tests-utils";
+import {
+  createStreamingResponse,
+  runFrameworkIntegrationTest,
+} from "@repo/integration-tests-utils";
 import {
   createMiddleware,
+  getContext,
   universalOnBeforeResponse,
 } from "@universal-middleware/h3";
 import { createApp, createRouter, defineEventHandler, toWebHandler } from "h3";
+import { handleIdempotentRequestError } from "universal-idempotent-request";
 
 class H3TestAdapter implements FrameworkTestAdapter {
   name = "h3";
@@ -30,6 +35,11 @@ class H3TestAdapter implements FrameworkTestAdapter {
     this.#app = createApp({
       // THIS IS REQUIRED BY UNIVERSAL MIDDLEWARE
       onBeforeResponse: universalOnBeforeResponse,
+      onError: async (_error, event) => {
+        if (event.path !== "/api/unhandled-throw") {
+          await handleIdempotentRequestError(getContext(event));
+        }
+      },
     });
   };
 
@@ -41,7 +51,13 @@ class H3TestAdapter implements FrameworkTestAdapter {
     );
 
     this.#app.use(
-      ["/api/test", "/api/error"],
+      [
+        "/api/test",
+        "/api/error",
+        "/api/throw",
+        "/api/unhandled-throw",
+        "/api/stream",
+      ],
       idempotentRequestMiddleware(arguments_.idempotentRequest.arguments),
     );
 
@@ -73,6 +89,25 @@ class H3TestAdapter implements FrameworkTestAdapter {
       }),
     );
 
+    router.post(
+      "/api/stream",
+      defineEventHandler(() => createStreamingResponse()),
+    );
+
+    router.post(
+      "/api/throw",
+      defineEventHandler(() => {
+        throw new Error("Route handler error");
+      }),
+    );
+
+    router.post(
+      "/api/unhandled-throw",
+      defineEventHandler(() => {
+        throw new Error("Route handler error");
+      }),
+    );
+
     this.#app.use(router);
   };
 }
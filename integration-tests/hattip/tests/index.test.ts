@@ -6,8 +6,12 @@ import type {
 
 import { createTestClient } from "@hattip/adapter-test";
 import { createRouter } from "@hattip/router";
-import { runFrameworkIntegrationTest } from "@repo/integration-tests-utils";
-import { createMiddleware } from "@universal-middleware/hattip";
+import {
+  createStreamingResponse,
+  runFrameworkIntegrationTest,
+} from "@repo/integration-tests-utils";
+import { createMiddleware, getContext } from "@universal-middleware/hattip";
+import { handleIdempotentRequestError } from "universal-idempotent-request";
 
 class HattipTestAdapter implements FrameworkTestAdapter {
   name = "hattip";
@@ -39,6 +43,16 @@ class HattipTestAdapter implements FrameworkTestAdapter {
       arguments_.racer.middleware,
     );
 
+    this.#app.use((context) => {
+      const handleError = context.handleError.bind(context);
+      context.handleError = async (error) => {
+        if (context.url.pathname !== "/api/unhandled-throw") {
+          await handleIdempotentRequestError(getContext(context));
+        }
+        return await handleError(error);
+      };
+    });
+
     this.#app.use(
       idempotentRequestMiddleware(arguments_.idempotentRequest.arguments),
     );
@@ -54,6 +68,16 @@ class HattipTestAdapter implements FrameworkTestAdapter {
         status: 500,
       });
     });
+
+    this.#app.post("/api/stream", () => createStreamingResponse());
+
+    this.#app.post("/api/throw", () => {
+      throw new Error("Route handler error");
+    });
+
+    this.#app.post("/api/unhandled-throw", () => {
+      throw new Error("Route handler error");
+    });
   };
 }
 
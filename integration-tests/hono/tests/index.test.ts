@@ -3,9 +3,13 @@ import type {
   SetupAppArguments,
 } from "@repo/integration-tests-utils";
 
-import { runFrameworkIntegrationTest } from "@repo/integration-tests-utils";
-import { createMiddleware } from "@universal-middleware/hono";
+import {
+  createStreamingResponse,
+  runFrameworkIntegrationTest,
+} from "@repo/integration-tests-utils";
+import { createMiddleware, getContext } from "@universal-middleware/hono";
 import { Hono } from "hono";
+import { handleIdempotentRequestError } from "universal-idempotent-request";
 
 class HonoTestAdapter implements FrameworkTestAdapter {
   name = "Hono";
@@ -61,6 +65,23 @@ class HonoTestAdapter implements FrameworkTestAdapter {
       "/api/error",
       () => new Response("Internal Server Error", { status: 500 }),
     );
+
+    this.#app.post("/api/stream", () => createStreamingResponse());
+
+    this.#app.post("/api/throw", () => {
+      throw new Error("Route handler error");
+    });
+
+    this.#app.post("/api/unhandled-throw", () => {
+      throw new Error("Route handler error");
+    });
+
+    this.#app.onError(async (_error, c) => {
+      if (c.req.path !== "/api/unhandled-throw") {
+        await handleIdempotentRequestError(getContext(c));
+      }
+      return c.text("Internal Server Error", 500);
+    });
   };
 }
 
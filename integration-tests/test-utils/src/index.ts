@@ -1,12 +1,24 @@
 import type {
+  IdempotentRequestImplementation,
   IdempotentRequestServerSpecification,
   IdempotentRequestStorageAdapter,
 } from "universal-idempotent-request";
 
-import { idempotentRequestUniversalMiddleware } from "universal-idempotent-request";
+import {
+  anyOfKeyExtractors,
+  createBodyFieldKeyExtractor,
+  createHeaderKeyExtractor,
+  createInMemoryStorageAdapter,
+  createJsonFingerprintGenerator,
+  createQueryKeyExtractor,
+  createSignedKeyIssuer,
+  createStorageKey,
+  idempotentRequestUniversalMiddleware,
+} from "universal-idempotent-request";
 import { v4 as uuidv4 } from "uuid";
 import {
   afterAll,
+  afterEach,
   beforeAll,
   beforeEach,
   describe,
@@ -15,15 +27,24 @@ import {
   vi,
 } from "vitest";
 
-import { createInMemoryAdapter } from "./in-memory-adapter";
 import { createRacer, racerMiddleware } from "./racer";
 import {
   createTestServerSpecification,
   createUnsafeServerSpecification,
 } from "./server-specification";
+import { STREAMING_RESPONSE_LINES } from "./streaming-response";
+
+export { createStreamingResponse } from "./streaming-response";
 
 /**
  * You need to implement this interface for each frameworks you want to test.
+ *
+ * The app must serve the following routes:
+ * - `POST /api/test`: Returns `{ "message": "Test passed" }`. A request to `/api/test/` must reach the middleware too.
+ * - `POST /api/error`: Returns a 500 response
+ * - `POST /api/throw`: Throws an error. The error handler of the app must call `handleIdempotentRequestError`.
+ * - `POST /api/unhandled-throw`: Throws an error. The error handler of the app must not call `handleIdempotentRequestError`.
+ * - `POST /api/stream`: Returns `createStreamingResponse()`
  */
 export interface FrameworkTestAdapter {
   fetch(request: Request): Promise<Response>;
@@ -55,14 +76,20 @@ export const runFrameworkIntegrationTest = (framework: FrameworkTestAdapter) =>
     });
 
     const testSpecification = createTestServerSpecification();
-    const memoryAdapter = createInMemoryAdapter();
+    const memoryAdapter = createInMemoryStorageAdapter();
 
-    const adapterSaveSpy = vi.spyOn(memoryAdapter, "save");
+    const adapterLockSpy = vi.spyOn(memoryAdapter, "lock");
 
     const setup = ({
+      implementation,
+      retention,
       serverSpecification,
       storageAdapter,
     }: Partial<{
+      implementation: Partial<
+        Omit<IdempotentRequestImplementation, "server" | "storage">
+      >;
+      retention: number;
       serverSpecification: IdempotentRequestServerSpecification;
       storageAdapter: IdempotentRequestStorageAdapter;
     }> = {}) => {
@@ -75,11 +102,13 @@ export const runFrameworkIntegrationTest = (framework: FrameworkTestAdapter) =>
             activationStrategy: (request) => {
               return ["PATCH", "POST"].includes(request.method);
             },
+            ...implementation,
             server: {
               specification: serverSpecification,
             },
             storage: {
               adapter: storageAdapter,
+              retention,
             },
           },
           middleware: idempotentRequestUniversalMiddleware,
@@ -149,7 +178,7 @@ export const runFrameworkIntegrationTest = (framework: FrameworkTestAdapter) =>
         expect(cachedResponse.status).toBe(response.status);
         expect(cachedJson["message"]).toBe(json["message"]);
 
-        expect(adapterSaveSpy).toHaveBeenCalledOnce();
+        expect(adapterLockSpy).toHaveBeenCalledOnce();
       });
     });
 
@@ -200,8 +229,8 @@ export const runFrameworkIntegrationTest = (framework: FrameworkTestAdapter) =>
         expect(response.status).toBe(400);
         expect(await response.json()).toStrictEqual({
           detail:
-            "This operation is idempotent and it requires correct usage of Idempotency Key.",
-          title: "Idempotency-Key is missing",
+            "This operation is idempotent and it requires correct usage of Idempotency Key. The Idempotency-Key does not satisfy the key specification of this operation.",
+          title: "Idempotency-Key is invalid",
         });
       });
 
@@ -272,12 +301,288 @@ export const runFrameworkIntegrationTest = (framework: FrameworkTestAdapter) =>
 
         expect(successResponse.status).toBe(200);
         expect(conflictResponse.status).toBe(409);
+        // The lock never expires without a lease.
+        expect(conflictResponse.headers.get("Retry-After")).toBeNull();
+
+        expect(await conflictResponse.json()).toStrictEqual({
+          detail:
+            "A request with the same Idempotency-Key for the same operation is being processed or is outstanding.",
+          title: "A request is outstanding for this Idempotency-Key",
+        });
+      });
+    });
+
+    describe("Atomic lock acquisition", () => {
+      beforeAll(() => {
+        const adapter = createInMemoryStorageAdapter();
+        const waitingReads: Array<() => void> = [];
+
+        setup({
+          storageAdapter: {
+            ...adapter,
+            // Hold reads until both requests observe that no request is stored.
+            get: async (storageKey) => {
+              await new Promise<void>((resolve) => {
+                waitingReads.push(resolve);
+                if (waitingReads.length === 2) {
+                  for (const release of waitingReads.splice(0)) release();
+                }
+              });
+              return await adapter.get(storageKey);
+            },
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should process only one of simultaneous first requests with same Idempotency-Key", async () => {
+        const idempotencyKey = uuidv4();
+
+        const createRequest = () =>
+          new Request("http://127.0.0.1:3000/api/test", {
+            body: JSON.stringify({ name: "John" }),
+            headers: {
+              "Content-Type": "application/json",
+              "Idempotency-Key": idempotencyKey,
+            },
+            method: "POST",
+          });
+
+        const responses = await Promise.all([
+          framework.fetch(createRequest()),
+          framework.fetch(createRequest()),
+        ]);
+
+        expect(
+          responses.map((response) => response.status).sort(),
+        ).toStrictEqual([200, 409]);
+      });
+    });
+
+    describe("Wait for completion", () => {
+      beforeAll(() => {
+        setup({
+          implementation: {
+            hooks: {
+              modifyResponse: (response, type) => {
+                response.headers.set("X-Idempotency-Status", type);
+                return response;
+              },
+            },
+            lock: {
+              waitForCompletion: { initialInterval: 10, timeout: 1000 },
+            },
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should return the stored response once the original request completes", async () => {
+        const idempotencyKey = uuidv4();
+
+        const createRequest = (headers: Record<string, string> = {}) =>
+          new Request("http://127.0.0.1:3000/api/test", {
+            body: JSON.stringify({ name: "John" }),
+            headers: {
+              ...headers,
+              "Content-Type": "application/json",
+              "Idempotency-Key": idempotencyKey,
+            },
+            method: "POST",
+          });
+
+        const firstSlowRequest = async () =>
+          await framework.fetch(
+            createRequest({
+              "X-Simulate-Slow": "true",
+            }),
+          );
+
+        const secondRequest = async () => {
+          // send second request before first request is stored
+          await racer.waitOnClient();
+          return await framework.fetch(createRequest());
+        };
+
+        const [firstResponse, waitedResponse] = await Promise.all([
+          firstSlowRequest(),
+          secondRequest(),
+        ]);
+
+        expect(firstResponse.status).toBe(200);
+        expect(waitedResponse.status).toBe(200);
+        expect(waitedResponse.headers.get("X-Idempotency-Status")).toBe(
+          "retrieved_stored_response",
+        );
+        expect(await waitedResponse.text()).toBe(await firstResponse.text());
+      });
+    });
+
+    describe("Wait for completion timeout", () => {
+      beforeAll(() => {
+        const adapter = createInMemoryStorageAdapter();
+
+        setup({
+          implementation: {
+            lock: {
+              waitForCompletion: { initialInterval: 10, timeout: 50 },
+            },
+          },
+          storageAdapter: {
+            ...adapter,
+            // Simulate a crash before the response is stored.
+            unlock: () => true,
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should return 409 when the original request does not complete in time", async () => {
+        const idempotencyKey = uuidv4();
+        const createRequest = () =>
+          new Request("http://127.0.0.1:3000/api/test", {
+            body: JSON.stringify({ name: "John" }),
+            headers: {
+              "Content-Type": "application/json",
+              "Idempotency-Key": idempotencyKey,
+            },
+            method: "POST",
+          });
+
+        const abandonedResponse = await framework.fetch(createRequest());
+        expect(abandonedResponse.status).toBe(200);
+
+        const conflictResponse = await framework.fetch(createRequest());
+        expect(conflictResponse.status).toBe(409);
+      });
+    });
+
+    describe("Lock lease", () => {
+      const leaseDuration = 60_000;
+
+      beforeAll(() => {
+        const adapter = createInMemoryStorageAdapter();
+
+        setup({
+          implementation: {
+            hooks: {
+              modifyResponse: (response, type) => {
+                response.headers.set("X-Idempotency-Status", type);
+                return response;
+              },
+            },
+            lock: { exposeLockAge: true, leaseDuration },
+          },
+          storageAdapter: {
+            ...adapter,
+            // Simulate a crash before the response is stored.
+            unlock: () => true,
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it("should take over an abandoned lock after the lease has passed", async () => {
+        // Freeze the clock, so that the lock age and the lease do not depend on the test speed.
+        vi.useFakeTimers({ toFake: ["Date"] });
+        const idempotencyKey = uuidv4();
+        const createRequest = () =>
+          new Request("http://127.0.0.1:3000/api/test", {
+            body: JSON.stringify({ name: "John" }),
+            headers: {
+              "Content-Type": "application/json",
+              "Idempotency-Key": idempotencyKey,
+            },
+            method: "POST",
+          });
 
+        const abandonedResponse = await framework.fetch(createRequest());
+        expect(abandonedResponse.status).toBe(200);
+
+        const conflictResponse = await framework.fetch(createRequest());
+        expect(conflictResponse.status).toBe(409);
+        expect(conflictResponse.headers.get("Retry-After")).toBe("60");
         expect(await conflictResponse.json()).toStrictEqual({
           detail:
             "A request with the same Idempotency-Key for the same operation is being processed or is outstanding.",
+          lockAge: 0,
           title: "A request is outstanding for this Idempotency-Key",
         });
+
+        vi.setSystemTime(Date.now() + leaseDuration);
+
+        const takeoverResponse = await framework.fetch(createRequest());
+        expect(takeoverResponse.status).toBe(200);
+        expect(takeoverResponse.headers.get("X-Idempotency-Status")).toBe(
+          "lock_takeover",
+        );
+      });
+    });
+
+    describe("Retention", () => {
+      const retention = 200;
+
+      beforeAll(() => {
+        setup({
+          implementation: {
+            hooks: {
+              modifyResponse: (response, type) => {
+                response.headers.set("X-Idempotency-Status", type);
+                return response;
+              },
+            },
+          },
+          retention,
+          storageAdapter: createInMemoryStorageAdapter(),
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should process the request again after the stored request has expired", async () => {
+        const idempotencyKey = uuidv4();
+
+        const firstResponse = await framework.fetch(
+          createKeyRequest(idempotencyKey),
+        );
+        expect(firstResponse.headers.get("X-Idempotency-Status")).toBe(
+          "success",
+        );
+
+        const storedResponse = await framework.fetch(
+          createKeyRequest(idempotencyKey),
+        );
+        expect(storedResponse.headers.get("X-Idempotency-Status")).toBe(
+          "retrieved_stored_response",
+        );
+
+        await new Promise((resolve) => setTimeout(resolve, retention));
+
+        const reprocessedResponse = await framework.fetch(
+          createKeyRequest(idempotencyKey),
+        );
+        expect(reprocessedResponse.status).toBe(200);
+        expect(reprocessedResponse.headers.get("X-Idempotency-Status")).toBe(
+          "success",
+        );
       });
     });
 
@@ -290,6 +595,37 @@ export const runFrameworkIntegrationTest = (framework: FrameworkTestAdapter) =>
         framework.resetApp();
       });
 
+      it("should not cache the server error response", async () => {
+        const request = new Request("http://127.0.0.1:3000/api/error", {
+          headers: {
+            "Idempotency-Key": uuidv4(),
+          },
+          method: "POST",
+        });
+
+        const response = await framework.fetch(request);
+        const retriedResponse = await framework.fetch(request.clone());
+
+        expect(response.status).toBe(500);
+        expect(retriedResponse.status).toBe(500);
+        // The retried request is processed again.
+        expect(adapterLockSpy).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe("Error handling with custom storing policy", () => {
+      beforeAll(() => {
+        setup({
+          implementation: {
+            shouldStoreResponse: () => true,
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
       it("should cache the error response", async () => {
         const request = new Request("http://127.0.0.1:3000/api/error", {
           headers: {
@@ -306,32 +642,788 @@ export const runFrameworkIntegrationTest = (framework: FrameworkTestAdapter) =>
 
         expect(cachedResponse.status).toBe(response.status);
         expect(cachedText).toBe(text);
-        expect(adapterSaveSpy).toHaveBeenCalledOnce();
+        expect(adapterLockSpy).toHaveBeenCalledOnce();
       });
     });
 
-    describe("Unsafe implementation detection", () => {
-      beforeAll(() => {
-        setup({
-          serverSpecification: createUnsafeServerSpecification(),
-        });
+    describe("Route handler error", () => {
+      afterEach(() => {
+        vi.useRealTimers();
+        framework.resetApp();
       });
 
-      afterAll(() => {
-        framework.resetApp();
+      it("should release the lock with the release policy", async () => {
+        setup({ implementation: { handlerErrorPolicy: "release" } });
+        const idempotencyKey = uuidv4();
+
+        const response = await framework.fetch(
+          createThrowingRequest(idempotencyKey),
+        );
+        const retriedResponse = await framework.fetch(
+          createThrowingRequest(idempotencyKey),
+        );
+
+        expect(response.status).toBe(500);
+        expect(retriedResponse.status).toBe(500);
+        // The retried request is processed again.
+        expect(adapterLockSpy).toHaveBeenCalledTimes(2);
       });
 
-      it("should throw an error if the storage key does not include the Idempotency-Key header", async () => {
+      it("should store a synthesized error response with the store policy", async () => {
+        setup({ implementation: { handlerErrorPolicy: "store" } });
+        const idempotencyKey = uuidv4();
+
         const response = await framework.fetch(
-          new Request("http://127.0.0.1:3000/api/test", {
-            headers: {
-              "Idempotency-Key": uuidv4(),
+          createThrowingRequest(idempotencyKey),
+        );
+        const retriedResponse = await framework.fetch(
+          createThrowingRequest(idempotencyKey),
+        );
+
+        expect(response.status).toBe(500);
+        expect(retriedResponse.status).toBe(500);
+        expect(await retriedResponse.json()).toStrictEqual({
+          detail:
+            "The request with this Idempotency-Key failed while being processed. Retry with a new Idempotency-Key.",
+          title: "The request for this Idempotency-Key has failed",
+        });
+        expect(adapterLockSpy).toHaveBeenCalledOnce();
+      });
+
+      it("should delete the stored request with the delete policy", async () => {
+        setup({ implementation: { handlerErrorPolicy: "delete" } });
+        const idempotencyKey = uuidv4();
+
+        const response = await framework.fetch(
+          createThrowingRequest(idempotencyKey),
+        );
+
+        expect(response.status).toBe(500);
+        expect(
+          await memoryAdapter.get(
+            createStorageKey(`POST-/api/throw-${idempotencyKey}`),
+          ),
+        ).toBeNull();
+      });
+
+      it("should let a retried request take over the lock after the heartbeat has stopped, if the error is not handled", async () => {
+        vi.useFakeTimers({ toFake: ["Date", "setTimeout", "clearTimeout"] });
+        setup({
+          implementation: {
+            handlerErrorPolicy: "release",
+            lock: {
+              heartbeatInterval: 1000,
+              leaseDuration: 5000,
+              maxHeartbeatDuration: 3000,
             },
-            method: "POST",
-          }),
+          },
+        });
+        const idempotencyKey = uuidv4();
+
+        const response = await framework.fetch(
+          createUnhandledThrowingRequest(idempotencyKey),
+        );
+        // The heartbeat refreshes the lock until the maximum duration, then the lease expires.
+        await vi.advanceTimersByTimeAsync(3000 + 5000);
+        const retriedResponse = await framework.fetch(
+          createUnhandledThrowingRequest(idempotencyKey),
         );
 
         expect(response.status).toBe(500);
+        // The retried request is processed again, instead of 409 Conflict.
+        expect(retriedResponse.status).toBe(500);
       });
     });
-  });
+
+    describe("Streaming response", () => {
+      beforeAll(() => {
+        setup({
+          implementation: {
+            hooks: {
+              modifyResponse: (response, type) => {
+                response.headers.set("X-Idempotency-Status", type);
+                return response;
+              },
+            },
+            lock: {
+              // Wait for the captured response to be stored
+              waitForCompletion: { initialInterval: 10, timeout: 1000 },
+            },
+            streaming: {},
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should stream the response and store the captured body", async () => {
+        const idempotencyKey = uuidv4();
+
+        const firstResponse = await framework.fetch(
+          createStreamRequest(idempotencyKey),
+        );
+        expect(firstResponse.status).toBe(200);
+        expect(await firstResponse.text()).toBe(expectedStreamingBody);
+
+        const secondResponse = await framework.fetch(
+          createStreamRequest(idempotencyKey),
+        );
+        expect(secondResponse.status).toBe(200);
+        expect(secondResponse.headers.get("X-Idempotency-Status")).toBe(
+          "retrieved_stored_response",
+        );
+        expect(secondResponse.headers.get("Content-Type")).toBe(
+          "application/x-ndjson",
+        );
+        expect(await secondResponse.text()).toBe(expectedStreamingBody);
+      });
+    });
+
+    describe("Streaming response with a capture error", () => {
+      const onStreamCaptureError = vi.fn();
+      const onUnhandledRejection = vi.fn();
+
+      beforeAll(() => {
+        process.on("unhandledRejection", onUnhandledRejection);
+        setup({
+          implementation: {
+            hooks: {
+              // Replace the body with a stream that fails partway.
+              modifyResponse: (response, type) =>
+                type === "success"
+                  ? new Response(createFailingStream(), response)
+                  : response,
+              onStreamCaptureError: (error) => {
+                onStreamCaptureError(error);
+                throw new Error("Hook error");
+              },
+            },
+            streaming: {},
+          },
+        });
+      });
+
+      afterAll(() => {
+        process.off("unhandledRejection", onUnhandledRejection);
+        framework.resetApp();
+      });
+
+      it("should report the capture error once, even if the hook throws", async () => {
+        const idempotencyKey = uuidv4();
+
+        const response = await framework
+          .fetch(createStreamRequest(idempotencyKey))
+          .catch(() => null);
+        await response?.text().catch(() => null);
+
+        await vi.waitFor(() => {
+          expect(onStreamCaptureError).toHaveBeenCalled();
+        });
+        // Let a rejection of the hook surface, if any.
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        expect(onStreamCaptureError).toHaveBeenCalledOnce();
+        expect(onUnhandledRejection).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("Streaming response exceeding max body size", () => {
+      beforeAll(() => {
+        setup({
+          implementation: {
+            hooks: {
+              modifyResponse: (response, type) => {
+                response.headers.set("X-Idempotency-Status", type);
+                return response;
+              },
+            },
+            lock: {
+              // Wait for the captured response to be stored
+              waitForCompletion: { initialInterval: 10, timeout: 1000 },
+            },
+            streaming: { maxBodySize: 8 },
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should not store the response exceeding the max body size", async () => {
+        const idempotencyKey = uuidv4();
+
+        const firstResponse = await framework.fetch(
+          createStreamRequest(idempotencyKey),
+        );
+        expect(firstResponse.status).toBe(200);
+        // The client still receives the whole body.
+        expect(await firstResponse.text()).toBe(expectedStreamingBody);
+
+        const secondResponse = await framework.fetch(
+          createStreamRequest(idempotencyKey),
+        );
+        expect(secondResponse.status).toBe(200);
+        expect(secondResponse.headers.get("X-Idempotency-Status")).toBe(
+          "success",
+        );
+      });
+    });
+
+    describe("Scoped storage key", () => {
+      beforeAll(() => {
+        setup({
+          implementation: {
+            getScope: (request) =>
+              request.headers.get("X-Tenant-Id") ?? "anonymous",
+            hooks: {
+              modifyResponse: (response, type) => {
+                response.headers.set("X-Idempotency-Status", type);
+                return response;
+              },
+            },
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should not share the stored response across scopes", async () => {
+        const idempotencyKey = uuidv4();
+        const createRequest = (tenantId: string) =>
+          new Request("http://127.0.0.1:3000/api/test", {
+            body: JSON.stringify({ name: "John" }),
+            headers: {
+              "Content-Type": "application/json",
+              "Idempotency-Key": idempotencyKey,
+              "X-Tenant-Id": tenantId,
+            },
+            method: "POST",
+          });
+
+        const firstResponse = await framework.fetch(createRequest("tenant-a"));
+        expect(firstResponse.headers.get("X-Idempotency-Status")).toBe(
+          "success",
+        );
+
+        const otherScopeResponse = await framework.fetch(
+          createRequest("tenant-b"),
+        );
+        expect(otherScopeResponse.status).toBe(200);
+        expect(otherScopeResponse.headers.get("X-Idempotency-Status")).toBe(
+          "success",
+        );
+
+        const sameScopeResponse = await framework.fetch(
+          createRequest("tenant-a"),
+        );
+        expect(sameScopeResponse.headers.get("X-Idempotency-Status")).toBe(
+          "retrieved_stored_response",
+        );
+      });
+    });
+
+    describe("Request normalization", () => {
+      beforeAll(() => {
+        setup({
+          implementation: {
+            hooks: {
+              modifyResponse: (response, type) => {
+                response.headers.set("X-Idempotency-Status", type);
+                return response;
+              },
+            },
+            requestNormalization: {
+              ignoredQueryParameters: ["utm_source"],
+              trailingSlash: "ignore",
+            },
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should return 422 if Idempotency-Key is reused with a different query string", async () => {
+        const idempotencyKey = uuidv4();
+
+        const response = await framework.fetch(
+          createQueryRequest(idempotencyKey, ""),
+        );
+        const abusedResponse = await framework.fetch(
+          createQueryRequest(idempotencyKey, "?dryRun=true"),
+        );
+
+        expect(response.status).toBe(200);
+        expect(abusedResponse.status).toBe(422);
+      });
+
+      it("should treat reordered and ignored query parameters as the same request", async () => {
+        const idempotencyKey = uuidv4();
+
+        const response = await framework.fetch(
+          createQueryRequest(idempotencyKey, "?a=1&b=2"),
+        );
+        const retriedResponse = await framework.fetch(
+          createQueryRequest(idempotencyKey, "?b=2&utm_source=mail&a=1"),
+        );
+
+        expect(response.status).toBe(200);
+        expect(retriedResponse.headers.get("X-Idempotency-Status")).toBe(
+          "retrieved_stored_response",
+        );
+      });
+
+      it("should treat a path with a trailing slash as the same request", async () => {
+        const idempotencyKey = uuidv4();
+        const createRequest = (path: string) =>
+          new Request(`http://127.0.0.1:3000${path}`, {
+            body: JSON.stringify({ name: "John" }),
+            headers: {
+              "Content-Type": "application/json",
+              "Idempotency-Key": idempotencyKey,
+            },
+            method: "POST",
+          });
+
+        const response = await framework.fetch(createRequest("/api/test"));
+        const retriedResponse = await framework.fetch(
+          createRequest("/api/test/"),
+        );
+
+        expect(response.status).toBe(200);
+        expect(retriedResponse.status).toBe(200);
+        expect(retriedResponse.headers.get("X-Idempotency-Status")).toBe(
+          "retrieved_stored_response",
+        );
+        expect(await retriedResponse.json()).toStrictEqual({
+          message: "Test passed",
+        });
+      });
+    });
+
+    describe("Payload mismatch diagnostics", () => {
+      const onPayloadMismatch = vi.fn();
+
+      beforeAll(() => {
+        setup({
+          implementation: {
+            hooks: {
+              modifyResponse: (response, type, details) => {
+                if (type === "key_payload_mismatch") {
+                  onPayloadMismatch(details?.mismatches);
+                }
+                return response;
+              },
+            },
+            payloadMismatchVerbosity: "values",
+          },
+          // Exclude the query from the fingerprint, so that only the query string differs.
+          serverSpecification: {
+            ...testSpecification,
+            getFingerprint: createJsonFingerprintGenerator({ query: "none" }),
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should include the differing fields in the response and the hook", async () => {
+        const idempotencyKey = uuidv4();
+
+        await framework.fetch(createQueryRequest(idempotencyKey, ""));
+        const abusedResponse = await framework.fetch(
+          createQueryRequest(idempotencyKey, "?dryRun=true"),
+        );
+
+        const expectedMismatches = [
+          { field: "requestQuery", received: "dryRun=true", stored: "" },
+        ];
+        expect(abusedResponse.status).toBe(422);
+        expect(await abusedResponse.json()).toStrictEqual({
+          detail:
+            "This operation is idempotent and it requires correct usage of Idempotency Key. Idempotency Key MUST not be reused across different payloads of this operation.",
+          mismatches: expectedMismatches,
+          title: "Idempotency-Key is already used",
+        });
+        expect(onPayloadMismatch).toHaveBeenCalledWith(expectedMismatches);
+      });
+    });
+
+    describe("Structured field key", () => {
+      beforeAll(() => {
+        setup({
+          implementation: {
+            hooks: {
+              modifyResponse: (response, type) => {
+                response.headers.set("X-Idempotency-Status", type);
+                return response;
+              },
+            },
+            keyExtractor: createHeaderKeyExtractor({ parsing: "strict" }),
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should accept a quoted Idempotency-Key", async () => {
+        const idempotencyKey = `"${uuidv4()}"`;
+
+        const response = await framework.fetch(
+          createKeyRequest(idempotencyKey),
+        );
+        const retriedResponse = await framework.fetch(
+          createKeyRequest(idempotencyKey),
+        );
+
+        expect(response.status).toBe(200);
+        expect(retriedResponse.headers.get("X-Idempotency-Status")).toBe(
+          "retrieved_stored_response",
+        );
+      });
+
+      it.each([
+        ["a bare key", uuidv4()],
+        ["an unterminated quoted key", `"${uuidv4()}`],
+      ])(
+        "should return 400 if Idempotency-Key is %s",
+        async (_, idempotencyKey) => {
+          const response = await framework.fetch(
+            createKeyRequest(idempotencyKey),
+          );
+
+          expect(response.status).toBe(400);
+          expect(response.headers.get("X-Idempotency-Status")).toBe(
+            "key_malformed",
+          );
+          expect(await response.json()).toStrictEqual({
+            detail:
+              'The Idempotency-Key header must be a Structured Field string as defined in RFC 8941, e.g. "8e03978e-40d5-43e8-bc93-6894a57f9324" with the quotes.',
+            title: "Idempotency-Key is malformed",
+          });
+        },
+      );
+    });
+
+    describe("Key extractor", () => {
+      beforeAll(() => {
+        setup({
+          implementation: {
+            activationStrategy: "opt-in",
+            hooks: {
+              modifyResponse: (response, type) => {
+                response.headers.set("X-Idempotency-Status", type);
+                return response;
+              },
+            },
+            keyExtractor: anyOfKeyExtractors(
+              createHeaderKeyExtractor(),
+              createHeaderKeyExtractor({ name: "X-Idempotency-Key" }),
+              createBodyFieldKeyExtractor({ name: "idempotency_key" }),
+            ),
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should read the key from an alternate header", async () => {
+        const idempotencyKey = uuidv4();
+        const createRequest = () =>
+          new Request("http://127.0.0.1:3000/api/test", {
+            body: JSON.stringify({ name: "John" }),
+            headers: {
+              "Content-Type": "application/json",
+              "X-Idempotency-Key": idempotencyKey,
+            },
+            method: "POST",
+          });
+
+        const response = await framework.fetch(createRequest());
+        const retriedResponse = await framework.fetch(createRequest());
+
+        expect(response.headers.get("X-Idempotency-Status")).toBe("success");
+        expect(retriedResponse.headers.get("X-Idempotency-Status")).toBe(
+          "retrieved_stored_response",
+        );
+      });
+
+      it("should read the key from a form field", async () => {
+        const idempotencyKey = uuidv4();
+        const createRequest = () =>
+          new Request("http://127.0.0.1:3000/api/test", {
+            body: new URLSearchParams({
+              idempotency_key: idempotencyKey,
+              name: "John",
+            }),
+            method: "POST",
+          });
+
+        const response = await framework.fetch(createRequest());
+        const retriedResponse = await framework.fetch(createRequest());
+
+        expect(response.headers.get("X-Idempotency-Status")).toBe("success");
+        expect(retriedResponse.headers.get("X-Idempotency-Status")).toBe(
+          "retrieved_stored_response",
+        );
+      });
+
+      it("should not activate when no source carries the key", async () => {
+        const response = await framework.fetch(
+          new Request("http://127.0.0.1:3000/api/test", {
+            body: JSON.stringify({ name: "John" }),
+            headers: { "Content-Type": "application/json" },
+            method: "POST",
+          }),
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get("X-Idempotency-Status")).toBeNull();
+      });
+    });
+
+    describe("Query parameter key extractor", () => {
+      beforeAll(() => {
+        setup({
+          implementation: {
+            keyExtractor: createQueryKeyExtractor({ name: "idempotency_key" }),
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should name the query parameter in the missing key response", async () => {
+        const response = await framework.fetch(createKeyRequest(uuidv4()));
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toStrictEqual({
+          detail:
+            "This operation is idempotent and it requires correct usage of Idempotency Key.",
+          title: "idempotency_key is missing",
+        });
+      });
+    });
+
+    describe("Invalid key reason", () => {
+      beforeAll(() => {
+        setup({
+          implementation: {
+            hooks: {
+              modifyResponse: (response, type) => {
+                response.headers.set("X-Idempotency-Status", type);
+                return response;
+              },
+            },
+          },
+          serverSpecification: {
+            ...testSpecification,
+            satisfiesKeySpec: (idempotencyKey) =>
+              idempotencyKey.length <= 36 || {
+                reason: "The key must be at most 36 characters.",
+                satisfied: false,
+              },
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should include the reason in the problem detail", async () => {
+        const response = await framework.fetch(
+          createKeyRequest("k".repeat(37)),
+        );
+
+        expect(response.status).toBe(400);
+        expect(response.headers.get("X-Idempotency-Status")).toBe(
+          "key_invalid",
+        );
+        expect(await response.json()).toStrictEqual({
+          detail:
+            "This operation is idempotent and it requires correct usage of Idempotency Key. The Idempotency-Key does not satisfy the key specification of this operation. The key must be at most 36 characters.",
+          title: "Idempotency-Key is invalid",
+        });
+      });
+    });
+
+    describe("Signed key", () => {
+      const signedKeys = createSignedKeyIssuer({
+        getPrincipal: (request) =>
+          request.headers.get("X-User-Id") ?? "anonymous",
+        secret: "integration-test-secret-of-32-bytes",
+      });
+
+      beforeAll(() => {
+        setup({
+          implementation: {
+            hooks: {
+              modifyResponse: (response, type) => {
+                response.headers.set("X-Idempotency-Status", type);
+                return response;
+              },
+            },
+          },
+          serverSpecification: {
+            ...testSpecification,
+            satisfiesKeySpec: signedKeys.satisfiesKeySpec,
+          },
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should accept a key issued to the user", async () => {
+        const idempotencyKey = await signedKeys.issue(
+          new Request("http://127.0.0.1:3000/form", {
+            headers: { "X-User-Id": "user-1" },
+          }),
+        );
+
+        const response = await framework.fetch(
+          createSignedKeyRequest(idempotencyKey, "user-1"),
+        );
+        const retriedResponse = await framework.fetch(
+          createSignedKeyRequest(idempotencyKey, "user-1"),
+        );
+
+        expect(response.headers.get("X-Idempotency-Status")).toBe("success");
+        expect(retriedResponse.headers.get("X-Idempotency-Status")).toBe(
+          "retrieved_stored_response",
+        );
+      });
+
+      it("should return 400 if the key is issued to another user", async () => {
+        const idempotencyKey = await signedKeys.issue(
+          new Request("http://127.0.0.1:3000/form", {
+            headers: { "X-User-Id": "user-1" },
+          }),
+        );
+
+        const response = await framework.fetch(
+          createSignedKeyRequest(idempotencyKey, "user-2"),
+        );
+
+        expect(response.status).toBe(400);
+      });
+
+      it("should return 400 if the key is not issued by the server", async () => {
+        const response = await framework.fetch(
+          createSignedKeyRequest(uuidv4(), "user-1"),
+        );
+
+        expect(response.status).toBe(400);
+      });
+    });
+
+    describe("Unsafe implementation detection", () => {
+      beforeAll(() => {
+        setup({
+          serverSpecification: createUnsafeServerSpecification(),
+        });
+      });
+
+      afterAll(() => {
+        framework.resetApp();
+      });
+
+      it("should throw an error if the storage key does not include the Idempotency-Key header", async () => {
+        const response = await framework.fetch(
+          new Request("http://127.0.0.1:3000/api/test", {
+            headers: {
+              "Idempotency-Key": uuidv4(),
+            },
+            method: "POST",
+          }),
+        );
+
+        expect(response.status).toBe(500);
+      });
+    });
+  });
+
+const createThrowingRequest = (idempotencyKey: string) =>
+  new Request("http://127.0.0.1:3000/api/throw", {
+    headers: {
+      "Idempotency-Key": idempotencyKey,
+    },
+    method: "POST",
+  });
+
+const createUnhandledThrowingRequest = (idempotencyKey: string) =>
+  new Request("http://127.0.0.1:3000/api/unhandled-throw", {
+    headers: {
+      "Idempotency-Key": idempotencyKey,
+    },
+    method: "POST",
+  });
+
+const createStreamRequest = (idempotencyKey: string) =>
+  new Request("http://127.0.0.1:3000/api/stream", {
+    body: JSON.stringify({ name: "John" }),
+    headers: {
+      "Content-Type": "application/json",
+      "Idempotency-Key": idempotencyKey,
+    },
+    method: "POST",
+  });
+
+const createKeyRequest = (idempotencyKey: string) =>
+  new Request("http://127.0.0.1:3000/api/test", {
+    body: JSON.stringify({ name: "John" }),
+    headers: {
+      "Content-Type": "application/json",
+      "Idempotency-Key": idempotencyKey,
+    },
+    method: "POST",
+  });
+
+const createSignedKeyRequest = (idempotencyKey: string, userId: string) =>
+  new Request("http://127.0.0.1:3000/api/test", {
+    body: JSON.stringify({ name: "John" }),
+    headers: {
+      "Content-Type": "application/json",
+      "Idempotency-Key": idempotencyKey,
+      "X-User-Id": userId,
+    },
+    method: "POST",
+  });
+
+const createQueryRequest = (idempotencyKey: string, query: string) =>
+  new Request(`http://127.0.0.1:3000/api/test${query}`, {
+    body: JSON.stringify({ name: "John" }),
+    headers: {
+      "Content-Type": "application/json",
+      "Idempotency-Key": idempotencyKey,
+    },
+    method: "POST",
+  });
+
+const createFailingStream = () =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode("partial"));
+      controller.error(new Error("Stream error"));
+    },
+  });
+
+const expectedStreamingBody = STREAMING_RESPONSE_LINES.map(
+  (line) => `${JSON.stringify(line)}\n`,
+).join("");
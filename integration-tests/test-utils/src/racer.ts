@@ -57,5 +57,7 @@ export const racerMiddleware = ((options: RacerMiddlewareOptions) =>
       return;
     }
 
-    await options.racer.waitOnClient();
+    // Delay longer than `waitOnClient`, so that a concurrent request arrives before the response is stored,
+    // even if the idempotency middleware takes time (e.g. hashing the fingerprint) before it reads the storage.
+    await options.racer.waitOnServer();
   }) satisfies Get<[RacerMiddlewareOptions], UniversalMiddleware>;
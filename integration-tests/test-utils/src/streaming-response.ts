@@ -0,0 +1,37 @@
+/**
+ * Lines of the NDJSON body returned by `createStreamingResponse`.
+ */
+export const STREAMING_RESPONSE_LINES = [
+  { id: 1, name: "John" },
+  { id: 2, name: "Jane" },
+  { id: 3, name: "Jack" },
+];
+
+/**
+ * Create a response that streams NDJSON lines one by one.
+ */
+export const createStreamingResponse = (): Response => {
+  const encoder = new TextEncoder();
+  let index = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const line = STREAMING_RESPONSE_LINES[index];
+      index++;
+      if (line == null) {
+        controller.close();
+        return;
+      }
+
+      // Yield to simulate a slow producer
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+    },
+  });
+};
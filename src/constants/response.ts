@@ -25,6 +25,49 @@ export const IDEMPOTENCY_KEY_MISSING_ERROR_RESPONSE = {
   statusText: "Bad Request",
 } as const satisfies SerializedResponse;
 
+/**
+ * If the Idempotency-Key request header does not satisfy the key specification
+ * of the server (e.g. it is too long or has a wrong format),
+ * the resource replies with an HTTP 400 status code.
+ *
+ * This is distinguished from a missing key, so that a client does not assume it sent no key.
+ *
+ * @see {@link https://datatracker.ietf.org/doc/html/draft-ietf-httpapi-idempotency-key-header-06#section-2.5.2}
+ */
+export const IDEMPOTENCY_KEY_INVALID_ERROR_RESPONSE = {
+  body: JSON.stringify({
+    detail:
+      "This operation is idempotent and it requires correct usage of Idempotency Key. The Idempotency-Key does not satisfy the key specification of this operation.",
+    title: "Idempotency-Key is invalid",
+  }),
+  headers: {
+    "Content-Type": "application/problem+json",
+  },
+  status: 400,
+  statusText: "Bad Request",
+} as const satisfies SerializedResponse;
+
+/**
+ * If the Idempotency-Key request header is not a valid sf-string,
+ * the resource replies with an HTTP 400 status code.
+ *
+ * This is distinguished from a missing key, so that a client can find a quoting bug.
+ *
+ * @see {@link https://datatracker.ietf.org/doc/html/draft-ietf-httpapi-idempotency-key-header-06#section-2.1}
+ */
+export const IDEMPOTENCY_KEY_MALFORMED_ERROR_RESPONSE = {
+  body: JSON.stringify({
+    detail:
+      'The Idempotency-Key header must be a Structured Field string as defined in RFC 8941, e.g. "8e03978e-40d5-43e8-bc93-6894a57f9324" with the quotes.',
+    title: "Idempotency-Key is malformed",
+  }),
+  headers: {
+    "Content-Type": "application/problem+json",
+  },
+  status: 400,
+  statusText: "Bad Request",
+} as const satisfies SerializedResponse;
+
 /**
  * If the request is retried, while the original request is still being
  * processed, the resource SHOULD reply with an HTTP 409 status code
@@ -64,3 +107,22 @@ export const IDEMPOTENCY_KEY_PAYLOAD_MISMATCH_ERROR_RESPONSE = {
   status: 422,
   statusText: "Unprocessable Content",
 } as const satisfies SerializedResponse;
+
+/**
+ * If the route handler throws an error and `handlerErrorPolicy` is `"store"`,
+ * this response is stored and replayed to retried requests.
+ *
+ * This is not defined in the draft.
+ */
+export const IDEMPOTENT_REQUEST_HANDLER_ERROR_RESPONSE = {
+  body: JSON.stringify({
+    detail:
+      "The request with this Idempotency-Key failed while being processed. Retry with a new Idempotency-Key.",
+    title: "The request for this Idempotency-Key has failed",
+  }),
+  headers: {
+    "Content-Type": "application/problem+json",
+  },
+  status: 500,
+  statusText: "Internal Server Error",
+} as const satisfies SerializedResponse;
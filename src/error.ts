@@ -10,6 +10,19 @@ export class IdempotencyKeyStorageError extends Error {
   }
 }
 
+/**
+ * If the lock of a request is no longer held when storing the response, this error is thrown.
+ *
+ * This happens when the lock lease has expired and another request has taken over the lock.
+ * The response is not stored, so that the response of the newer lock holder is not overwritten.
+ */
+export class IdempotencyLockLostError extends Error {
+  constructor(message?: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "IdempotencyLockLostError";
+  }
+}
+
 /**
  * This error is thrown when the implementation is not safe.
  *
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { canonicalizeJson, sortEntries } from "./canonical";
+
+describe("canonicalizeJson", () => {
+  it("sorts object keys recursively", () => {
+    expect(
+      canonicalizeJson(JSON.parse('{"b":{"d":1,"c":2},"a":[{"f":1,"e":2}]}')),
+    ).toBe('{"a":[{"e":2,"f":1}],"b":{"c":2,"d":1}}');
+  });
+
+  it("normalizes numbers", () => {
+    expect(canonicalizeJson(JSON.parse("[1.0, 1e2, -0, 0.10]"))).toBe(
+      "[1,100,0,0.1]",
+    );
+  });
+
+  it("removes insignificant whitespace", () => {
+    expect(canonicalizeJson(JSON.parse('{ "a" : [ 1 , "x y" ] }'))).toBe(
+      '{"a":[1,"x y"]}',
+    );
+  });
+
+  it("serializes primitives", () => {
+    expect(canonicalizeJson(JSON.parse('"text"'))).toBe('"text"');
+    expect(canonicalizeJson(JSON.parse("true"))).toBe("true");
+    expect(canonicalizeJson(JSON.parse("null"))).toBe("null");
+  });
+});
+
+describe("sortEntries", () => {
+  it("sorts entries by name and preserves the order of the same name", () => {
+    expect(
+      sortEntries([
+        ["tag", "b"],
+        ["name", "x"],
+        ["tag", "a"],
+      ]),
+    ).toStrictEqual([
+      ["name", "x"],
+      ["tag", "b"],
+      ["tag", "a"],
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Serialize a JSON value into a canonical form.
+ *
+ * - Object keys are sorted by UTF-16 code units, recursively.
+ * - Numbers are normalized by the ECMAScript number serialization, e.g. `1.0` and `1e0` become `1`.
+ * - Insignificant whitespace is removed.
+ *
+ * This follows the JSON Canonicalization Scheme for values parsed by `JSON.parse`.
+ *
+ * @see {@link https://datatracker.ietf.org/doc/html/rfc8785 RFC 8785}
+ *
+ * @param value - A value parsed by `JSON.parse`
+ * @returns The canonical JSON text
+ */
+export const canonicalizeJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalizeJson(item)).join(",")}]`;
+  }
+
+  if (typeof value === "object" && value != null) {
+    const members = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalizeJson((value as Record<string, unknown>)[key])}`,
+      );
+    return `{${members.join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+};
+
+/**
+ * Sort entries by name in a stable way.
+ *
+ * The order of entries with the same name is preserved,
+ * because it is often meaningful, e.g. `?tag=a&tag=b`.
+ *
+ * @param entries - Name-value pairs
+ * @returns Sorted entries
+ */
+export const sortEntries = <T>(
+  entries: Iterable<[string, T]>,
+): Array<[string, T]> => {
+  return [...entries].sort(([a], [b]) => {
+    if (a === b) {
+      return 0;
+    }
+    return a < b ? -1 : 1;
+  });
+};
@@ -0,0 +1,293 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createBytesFingerprintGenerator,
+  createFormUrlEncodedFingerprintGenerator,
+  createJsonFingerprintGenerator,
+  createMultipartFingerprintGenerator,
+} from ".";
+
+const createRequest = (
+  url: string,
+  init: Pick<RequestInit, "body" | "headers"> = {},
+) => new Request(url, { method: "POST", ...init });
+
+describe("createJsonFingerprintGenerator", () => {
+  const getFingerprint = createJsonFingerprintGenerator();
+
+  it("returns a SHA-256 hex digest", async () => {
+    const fingerprint = await getFingerprint(
+      createRequest("http://localhost/api", { body: "{}" }),
+    );
+
+    expect(fingerprint).toMatch(/^[\da-f]{64}$/);
+  });
+
+  it("ignores key order, whitespace and number notation", async () => {
+    const fingerprint = await getFingerprint(
+      createRequest("http://localhost/api", {
+        body: '{"name":"John","age":30}',
+      }),
+    );
+    const retriedFingerprint = await getFingerprint(
+      createRequest("http://localhost/api", {
+        body: '{ "age": 30.0, "name": "John" }',
+      }),
+    );
+
+    expect(retriedFingerprint).toBe(fingerprint);
+  });
+
+  it("distinguishes different payloads", async () => {
+    const fingerprint = await getFingerprint(
+      createRequest("http://localhost/api", { body: '{"name":"John"}' }),
+    );
+    const otherFingerprint = await getFingerprint(
+      createRequest("http://localhost/api", { body: '{"name":"Jane"}' }),
+    );
+
+    expect(otherFingerprint).not.toBe(fingerprint);
+  });
+
+  it("distinguishes different methods and paths", async () => {
+    const fingerprint = await getFingerprint(
+      createRequest("http://localhost/api/a", { body: "{}" }),
+    );
+    const otherPathFingerprint = await getFingerprint(
+      createRequest("http://localhost/api/b", { body: "{}" }),
+    );
+    const otherMethodFingerprint = await getFingerprint(
+      new Request("http://localhost/api/a", { body: "{}", method: "PATCH" }),
+    );
+
+    expect(otherPathFingerprint).not.toBe(fingerprint);
+    expect(otherMethodFingerprint).not.toBe(fingerprint);
+  });
+
+  it("hashes an invalid JSON body as is", async () => {
+    const fingerprint = await getFingerprint(
+      createRequest("http://localhost/api", { body: "{invalid" }),
+    );
+    const otherFingerprint = await getFingerprint(
+      createRequest("http://localhost/api", { body: "{ invalid" }),
+    );
+
+    expect(otherFingerprint).not.toBe(fingerprint);
+  });
+
+  it("includes all query parameters regardless of order by default", async () => {
+    const fingerprint = await getFingerprint(
+      createRequest("http://localhost/api?a=1&b=2", { body: "{}" }),
+    );
+    const reorderedFingerprint = await getFingerprint(
+      createRequest("http://localhost/api?b=2&a=1", { body: "{}" }),
+    );
+    const otherFingerprint = await getFingerprint(
+      createRequest("http://localhost/api?a=1&b=3", { body: "{}" }),
+    );
+
+    expect(reorderedFingerprint).toBe(fingerprint);
+    expect(otherFingerprint).not.toBe(fingerprint);
+  });
+
+  it("includes only the selected query parameters", async () => {
+    const getSelectedFingerprint = createJsonFingerprintGenerator({
+      query: ["a"],
+    });
+
+    const fingerprint = await getSelectedFingerprint(
+      createRequest("http://localhost/api?a=1&utm_source=x", { body: "{}" }),
+    );
+    const otherFingerprint = await getSelectedFingerprint(
+      createRequest("http://localhost/api?a=1&utm_source=y", { body: "{}" }),
+    );
+
+    expect(otherFingerprint).toBe(fingerprint);
+  });
+
+  it("ignores the query string with none", async () => {
+    const getNoQueryFingerprint = createJsonFingerprintGenerator({
+      query: "none",
+    });
+
+    const fingerprint = await getNoQueryFingerprint(
+      createRequest("http://localhost/api?a=1", { body: "{}" }),
+    );
+    const otherFingerprint = await getNoQueryFingerprint(
+      createRequest("http://localhost/api?a=2", { body: "{}" }),
+    );
+
+    expect(otherFingerprint).toBe(fingerprint);
+  });
+
+  it("includes only the selected headers", async () => {
+    const getHeaderFingerprint = createJsonFingerprintGenerator({
+      headers: ["X-Tenant-Id"],
+    });
+
+    const fingerprint = await getHeaderFingerprint(
+      createRequest("http://localhost/api", {
+        body: "{}",
+        headers: { "X-Request-Id": "1", "x-tenant-id": "tenant-a" },
+      }),
+    );
+    const otherRequestIdFingerprint = await getHeaderFingerprint(
+      createRequest("http://localhost/api", {
+        body: "{}",
+        headers: { "X-Request-Id": "2", "X-Tenant-Id": "tenant-a" },
+      }),
+    );
+    const otherTenantFingerprint = await getHeaderFingerprint(
+      createRequest("http://localhost/api", {
+        body: "{}",
+        headers: { "X-Tenant-Id": "tenant-b" },
+      }),
+    );
+    const missingTenantFingerprint = await getHeaderFingerprint(
+      createRequest("http://localhost/api", { body: "{}" }),
+    );
+    const emptyTenantFingerprint = await getHeaderFingerprint(
+      createRequest("http://localhost/api", {
+        body: "{}",
+        headers: { "X-Tenant-Id": "" },
+      }),
+    );
+
+    expect(otherRequestIdFingerprint).toBe(fingerprint);
+    expect(otherTenantFingerprint).not.toBe(fingerprint);
+    expect(emptyTenantFingerprint).not.toBe(missingTenantFingerprint);
+  });
+});
+
+describe("createFormUrlEncodedFingerprintGenerator", () => {
+  const getFingerprint = createFormUrlEncodedFingerprintGenerator();
+
+  it("ignores field order but preserves the order of repeated fields", async () => {
+    const fingerprint = await getFingerprint(
+      createRequest("http://localhost/api", {
+        body: new URLSearchParams("name=John&tag=a&tag=b"),
+      }),
+    );
+    const reorderedFingerprint = await getFingerprint(
+      createRequest("http://localhost/api", {
+        body: new URLSearchParams("tag=a&name=John&tag=b"),
+      }),
+    );
+    const swappedTagsFingerprint = await getFingerprint(
+      createRequest("http://localhost/api", {
+        body: new URLSearchParams("name=John&tag=b&tag=a"),
+      }),
+    );
+
+    expect(reorderedFingerprint).toBe(fingerprint);
+    expect(swappedTagsFingerprint).not.toBe(fingerprint);
+  });
+
+  it("ignores percent-encoding differences", async () => {
+    const fingerprint = await getFingerprint(
+      createRequest("http://localhost/api", { body: "name=John+Doe" }),
+    );
+    const otherEncodingFingerprint = await getFingerprint(
+      createRequest("http://localhost/api", { body: "name=John%20Doe" }),
+    );
+
+    expect(otherEncodingFingerprint).toBe(fingerprint);
+  });
+});
+
+describe("createMultipartFingerprintGenerator", () => {
+  const getFingerprint = createMultipartFingerprintGenerator();
+
+  it("ignores field order and the multipart boundary", async () => {
+    const fingerprint = await getFingerprint(
+      createRequest("http://localhost/api", {
+        body: createFormData(
+          [
+            ["name", "John"],
+            ["age", "30"],
+          ],
+          { content: "hello", name: "a.txt" },
+        ),
+      }),
+    );
+    const reorderedFingerprint = await getFingerprint(
+      createRequest("http://localhost/api", {
+        body: createFormData(
+          [
+            ["age", "30"],
+            ["name", "John"],
+          ],
+          { content: "hello", name: "a.txt" },
+        ),
+      }),
+    );
+
+    expect(reorderedFingerprint).toBe(fingerprint);
+  });
+
+  it("distinguishes different file contents", async () => {
+    const fingerprint = await getFingerprint(
+      createRequest("http://localhost/api", {
+        body: createFormData([], { content: "hello", name: "a.txt" }),
+      }),
+    );
+    const otherFingerprint = await getFingerprint(
+      createRequest("http://localhost/api", {
+        body: createFormData([], { content: "world", name: "a.txt" }),
+      }),
+    );
+
+    expect(otherFingerprint).not.toBe(fingerprint);
+  });
+
+  it("hashes an invalid multipart body as raw bytes", async () => {
+    const fingerprint = await getFingerprint(
+      createRequest("http://localhost/api", {
+        body: "not multipart",
+        headers: { "Content-Type": "multipart/form-data; boundary=x" },
+      }),
+    );
+
+    expect(fingerprint).toMatch(/^[\da-f]{64}$/);
+  });
+});
+
+describe("createBytesFingerprintGenerator", () => {
+  const getFingerprint = createBytesFingerprintGenerator();
+
+  it("hashes the raw bytes of the body", async () => {
+    const fingerprint = await getFingerprint(
+      createRequest("http://localhost/api", {
+        body: new Uint8Array([0, 1, 2, 255]),
+      }),
+    );
+    const sameFingerprint = await getFingerprint(
+      createRequest("http://localhost/api", {
+        body: new Uint8Array([0, 1, 2, 255]),
+      }),
+    );
+    const otherFingerprint = await getFingerprint(
+      createRequest("http://localhost/api", {
+        body: new Uint8Array([0, 1, 2, 254]),
+      }),
+    );
+
+    expect(sameFingerprint).toBe(fingerprint);
+    expect(otherFingerprint).not.toBe(fingerprint);
+  });
+});
+
+const createFormData = (
+  fields: Array<[string, string]>,
+  file: { content: string; name: string },
+) => {
+  const formData = new FormData();
+  for (const [name, value] of fields) {
+    formData.append(name, value);
+  }
+  formData.append(
+    "file",
+    new File([file.content], file.name, { type: "text/plain" }),
+  );
+  return formData;
+};
@@ -0,0 +1,196 @@
+import { encodeHex } from "../utils/encoding";
+import { parseFormData } from "../utils/form-data";
+import { canonicalizeJson, sortEntries } from "./canonical";
+
+export interface FingerprintGeneratorOptions {
+  /**
+   * Names of request headers included in the fingerprint.
+   *
+   * Names are case-insensitive. A missing header is distinguished from an empty header.
+   *
+   * @default []
+   */
+  headers?: readonly string[];
+
+  /**
+   * Query parameters included in the fingerprint.
+   *
+   * - `"all"`: Include all query parameters
+   * - `"none"`: Ignore the query string
+   * - An array of names: Include only the listed query parameters
+   *
+   * Query parameters are sorted by name, so their order does not affect the fingerprint.
+   *
+   * @default "all"
+   */
+  query?: "all" | "none" | readonly string[];
+}
+
+/**
+ * A function that can be used as `getFingerprint` of `IdempotentRequestServerSpecification`.
+ */
+export type FingerprintGenerator = (request: Request) => Promise<string>;
+
+/**
+ * Canonicalize the request body into a JSON-serializable value.
+ */
+type BodyCanonicalizer = (request: Request) => Promise<unknown>;
+
+const digestSha256 = async (
+  data: ArrayBuffer | Uint8Array,
+): Promise<string> => {
+  return encodeHex(await crypto.subtle.digest("SHA-256", data));
+};
+
+const pickHeaders = (
+  headers: Headers,
+  names: readonly string[],
+): Array<[string, string | null]> => {
+  const uniqueNames = new Set(names.map((name) => name.toLowerCase()));
+  return sortEntries(
+    [...uniqueNames].map((name) => [name, headers.get(name)] as const),
+  );
+};
+
+const pickQuery = (
+  searchParameters: URLSearchParams,
+  query: NonNullable<FingerprintGeneratorOptions["query"]>,
+): Array<[string, string]> => {
+  if (query === "none") {
+    return [];
+  }
+
+  const entries = [...searchParameters.entries()];
+  if (query === "all") {
+    return sortEntries(entries);
+  }
+
+  const names = new Set(query);
+  return sortEntries(entries.filter(([name]) => names.has(name)));
+};
+
+const createFingerprintGenerator = (
+  canonicalizeBody: BodyCanonicalizer,
+  { headers = [], query = "all" }: FingerprintGeneratorOptions,
+): FingerprintGenerator => {
+  return async (request) => {
+    const url = new URL(request.url);
+
+    const digestBase = canonicalizeJson({
+      body: await canonicalizeBody(request),
+      headers: pickHeaders(request.headers, headers),
+      method: request.method,
+      path: url.pathname,
+      query: pickQuery(url.searchParams, query),
+    });
+
+    return await digestSha256(new TextEncoder().encode(digestBase));
+  };
+};
+
+const canonicalizeBytes: BodyCanonicalizer = async (request) => {
+  return await digestSha256(await request.arrayBuffer());
+};
+
+/**
+ * Create a fingerprint generator that hashes the raw bytes of the request body.
+ *
+ * Use this for binary payloads, or when the exact bytes matter.
+ *
+ * @param options - Fingerprint generator options
+ * @returns A function that can be used as `getFingerprint`
+ */
+export const createBytesFingerprintGenerator = (
+  options: FingerprintGeneratorOptions = {},
+): FingerprintGenerator => {
+  return createFingerprintGenerator(canonicalizeBytes, options);
+};
+
+/**
+ * Create a fingerprint generator for `application/json` request bodies.
+ *
+ * The body is canonicalized before hashing, so key order, whitespace and number notation
+ * (e.g. `1.0` and `1`) do not affect the fingerprint.
+ * A body that is not valid JSON is hashed as is.
+ *
+ * @example
+ * ```ts
+ * const specification: IdempotentRequestServerSpecification = {
+ *   getFingerprint: createJsonFingerprintGenerator({ headers: ["X-Tenant-Id"] }),
+ *   // ...
+ * };
+ * ```
+ *
+ * @param options - Fingerprint generator options
+ * @returns A function that can be used as `getFingerprint`
+ */
+export const createJsonFingerprintGenerator = (
+  options: FingerprintGeneratorOptions = {},
+): FingerprintGenerator => {
+  return createFingerprintGenerator(async (request) => {
+    const text = await request.text();
+    try {
+      return canonicalizeJson(JSON.parse(text));
+    } catch {
+      // Canonical JSON is always valid JSON, so it never collides with an invalid body.
+      return text;
+    }
+  }, options);
+};
+
+/**
+ * Create a fingerprint generator for `application/x-www-form-urlencoded` request bodies.
+ *
+ * Fields are sorted by name, so their order does not affect the fingerprint.
+ * The order of values with the same name is preserved.
+ *
+ * @param options - Fingerprint generator options
+ * @returns A function that can be used as `getFingerprint`
+ */
+export const createFormUrlEncodedFingerprintGenerator = (
+  options: FingerprintGeneratorOptions = {},
+): FingerprintGenerator => {
+  return createFingerprintGenerator(async (request) => {
+    return sortEntries(new URLSearchParams(await request.text()));
+  }, options);
+};
+
+/**
+ * Create a fingerprint generator for `multipart/form-data` request bodies.
+ *
+ * Fields are sorted by name, so their order and the multipart boundary do not affect the fingerprint.
+ * Files are represented by their name, type, size and SHA-256 digest.
+ * A body that is not valid multipart form data is hashed as raw bytes.
+ *
+ * @param options - Fingerprint generator options
+ * @returns A function that can be used as `getFingerprint`
+ */
+export const createMultipartFingerprintGenerator = (
+  options: FingerprintGeneratorOptions = {},
+): FingerprintGenerator => {
+  return createFingerprintGenerator(async (request) => {
+    let formData: FormData;
+    try {
+      formData = await parseFormData(request.clone());
+    } catch {
+      return { bytes: await canonicalizeBytes(request) };
+    }
+
+    const fields: Array<[string, unknown]> = [];
+    for (const [name, value] of formData.entries()) {
+      fields.push([
+        name,
+        typeof value === "string"
+          ? value
+          : {
+              digest: await digestSha256(await value.arrayBuffer()),
+              name: value.name,
+              size: value.size,
+              type: value.type,
+            },
+      ]);
+    }
+
+    return { fields: sortEntries(fields) };
+  }, options);
+};
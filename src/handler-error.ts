@@ -0,0 +1,61 @@
+import type { MaybePromise } from "./utils/types";
+
+/**
+ * Policy for handling a request whose route handler has thrown an error
+ *
+ * - `"release"`: Release the lock without storing any response, so that a retried request is processed again.
+ * - `"store"`: Store a synthesized 500 response, so that a retried request receives it.
+ * - `"delete"`: Delete the stored request. The storage adapter must implement `delete`.
+ */
+export type HandlerErrorPolicy = "delete" | "release" | "store";
+
+const handlerErrorHandlerSymbol = Symbol(
+  "universal-idempotent-request:handler-error-handler",
+);
+
+/**
+ * Register the function that applies `HandlerErrorPolicy` to the universal context.
+ *
+ * @param context - Universal context of the request
+ * @param handler - Function that applies the policy
+ */
+export const registerHandlerErrorHandler = (
+  context: Universal.Context,
+  handler: () => MaybePromise<void>,
+): void => {
+  context[handlerErrorHandlerSymbol] = handler;
+};
+
+/**
+ * Handle an error thrown by the route handler.
+ *
+ * Whether the middleware can observe an error thrown by the route handler depends on each framework.
+ * Some frameworks (e.g. h3, Elysia) skip the rest of the middleware when the route handler throws,
+ * so the stored request would remain locked until the lock lease expires
+ * (after the lock heartbeat has reached `lock.maxHeartbeatDuration`, if the heartbeat is enabled).
+ *
+ * Call this function from the error handler of your framework
+ * to apply `handlerErrorPolicy` to the request immediately.
+ *
+ * It does nothing if idempotency processing is not applied to the request.
+ *
+ * @param context - Universal context of the request. Use `getContext` of your universal-middleware adapter.
+ *
+ * @example
+ * ```ts
+ * import { getContext } from "@universal-middleware/hono";
+ *
+ * app.onError(async (error, c) => {
+ *   await handleIdempotentRequestError(getContext(c));
+ *   return c.text("Internal Server Error", 500);
+ * });
+ * ```
+ */
+export const handleIdempotentRequestError = async (
+  context: Universal.Context | undefined,
+): Promise<void> => {
+  const handler = context?.[handlerErrorHandlerSymbol];
+  if (typeof handler === "function") {
+    await (handler as () => MaybePromise<void>)();
+  }
+};
@@ -1,22 +1,83 @@
+import type { ProcessingIdempotentRequest } from "./idempotent-request";
+import type { RequestMismatch } from "./identifier";
 import type { MaybePromise } from "./utils/types";
 
 type ResponseType =
   | "error"
   | "key_conflict"
+  /**
+   * The key does not satisfy `satisfiesKeySpec` of the server specification.
+   */
+  | "key_invalid"
+  /**
+   * The `Idempotency-Key` header is not a valid sf-string.
+   */
+  | "key_malformed"
   | "key_missing"
   | "key_payload_mismatch"
+  /**
+   * The route handler was processed after taking over an abandoned lock.
+   */
+  | "lock_takeover"
   | "retrieved_stored_response"
   | "success";
 
+/**
+ * Details of the response passed to `modifyResponse`
+ */
+export type ResponseDetails = {
+  /**
+   * Fields that differ between the stored request and the received request
+   *
+   * Only given for `key_payload_mismatch`.
+   */
+  mismatches?: readonly RequestMismatch[];
+};
+
 export type Hooks = {
   modifyResponse: (
     response: Response,
     type: ResponseType,
+    details?: ResponseDetails,
   ) => MaybePromise<Response>;
+
+  /**
+   * Called when the lock heartbeat fails.
+   *
+   * If the error is `IdempotencyLockLostError`, the heartbeat is stopped.
+   * Otherwise, the heartbeat continues.
+   */
+  onHeartbeatError: (
+    error: unknown,
+    request: ProcessingIdempotentRequest,
+  ) => MaybePromise<void>;
+
+  /**
+   * Called when capturing a streamed response fails in the background.
+   *
+   * This is called when the response stream errors partway,
+   * or when the captured response fails to be stored.
+   * An error thrown by this hook is ignored, as the response has already been returned.
+   * Only used when `streaming` is enabled.
+   */
+  onStreamCaptureError: (
+    error: unknown,
+    request: ProcessingIdempotentRequest,
+  ) => MaybePromise<void>;
 };
 
 export const resolveHooks = (userHooks: Partial<Hooks> = {}): Hooks => {
   return {
     modifyResponse: userHooks.modifyResponse ?? ((response) => response),
+    onHeartbeatError:
+      userHooks.onHeartbeatError ??
+      (() => {
+        // Do nothing by default
+      }),
+    onStreamCaptureError:
+      userHooks.onStreamCaptureError ??
+      (() => {
+        // Do nothing by default
+      }),
   };
 };
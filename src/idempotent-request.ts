@@ -4,6 +4,21 @@ import type { SerializedResponse } from "./serializer";
 
 export type IdempotentRequestBase = Readonly<
   RequestIdentifier & {
+    /**
+     * Time when the request was first stored
+     */
+    createdAt: Date;
+
+    /**
+     * Time when the stored request expires
+     *
+     * An expired request is treated as absent by the middleware, whatever the adapter does.
+     * Adapters can use this to expire the request natively, e.g. with the TTL of the storage.
+     *
+     * `null` if `storage.retention` is not configured.
+     */
+    expiresAt: Date | null;
+
     /**
      * Storage key
      *
@@ -28,6 +43,13 @@ export type UnProcessedIdempotentRequest = IdempotentRequestBase &
      */
     lockedAt: null;
 
+    /**
+     * Token of the lock held for processing
+     *
+     * This is a fencing token to prevent a stale lock holder from overwriting the stored response.
+     */
+    lockToken: null;
+
     response: null;
   }>;
 
@@ -41,6 +63,13 @@ export type ProcessingIdempotentRequest = IdempotentRequestBase &
      */
     lockedAt: Date;
 
+    /**
+     * Token of the lock held for processing
+     *
+     * This is a fencing token to prevent a stale lock holder from overwriting the stored response.
+     */
+    lockToken: string;
+
     response: null;
   }>;
 
@@ -54,5 +83,12 @@ export type ProcessedIdempotentRequest = IdempotentRequestBase &
      */
     lockedAt: null;
 
+    /**
+     * Token of the lock held for processing
+     *
+     * This is a fencing token to prevent a stale lock holder from overwriting the stored response.
+     */
+    lockToken: null;
+
     response: SerializedResponse;
   }>;
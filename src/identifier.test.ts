@@ -3,7 +3,7 @@ import { describe, expect, it } from "vitest";
 import type { RequestIdentifier } from "./identifier";
 
 import { createIdempotencyFingerprint } from "./brand";
-import { isIdenticalRequest } from "./identifier";
+import { findRequestMismatches, isIdenticalRequest } from "./identifier";
 
 describe("isIdenticalRequest", () => {
   const base: RequestIdentifier = {
@@ -11,6 +11,8 @@ describe("isIdenticalRequest", () => {
     idempotencyKey: "key1",
     requestMethod: "GET",
     requestPath: "/api/test",
+    requestQuery: "",
+    scope: null,
   };
 
   it("returns true for identical requests", () => {
@@ -28,6 +30,22 @@ describe("isIdenticalRequest", () => {
     expect(isIdenticalRequest(base, candidate)).toBe(false);
   });
 
+  it("returns false when request query differs", () => {
+    const candidate: RequestIdentifier = {
+      ...base,
+      requestQuery: "dryRun=true",
+    };
+    expect(isIdenticalRequest(base, candidate)).toBe(false);
+  });
+
+  it("treats a stored request without query as having no query", () => {
+    // Simulate a request stored before the query was introduced
+    const storedRequest = { ...base, requestQuery: undefined };
+    expect(
+      isIdenticalRequest(storedRequest as unknown as RequestIdentifier, base),
+    ).toBe(true);
+  });
+
   it("returns false when idempotencyKey differs", () => {
     const candidate: RequestIdentifier = { ...base, idempotencyKey: "key2" };
     expect(isIdenticalRequest(base, candidate)).toBe(false);
@@ -55,4 +73,62 @@ describe("isIdenticalRequest", () => {
     };
     expect(isIdenticalRequest(target, candidate)).toBe(false);
   });
+
+  it("returns false when scope differs", () => {
+    const target: RequestIdentifier = { ...base, scope: "tenant-a" };
+    const candidate: RequestIdentifier = { ...base, scope: "tenant-b" };
+    expect(isIdenticalRequest(target, candidate)).toBe(false);
+  });
+
+  it("treats a stored request without scope as unscoped", () => {
+    // Simulate a request stored before scoping was introduced
+    const storedRequest = { ...base, scope: undefined };
+    expect(
+      isIdenticalRequest(storedRequest as unknown as RequestIdentifier, base),
+    ).toBe(true);
+  });
+});
+
+describe("findRequestMismatches", () => {
+  const base: RequestIdentifier = {
+    fingerprint: createIdempotencyFingerprint("fp1"),
+    idempotencyKey: "key1",
+    requestMethod: "POST",
+    requestPath: "/api/test",
+    requestQuery: "",
+    scope: null,
+  };
+
+  it("returns an empty array for identical requests", () => {
+    expect(findRequestMismatches(base, { ...base })).toStrictEqual([]);
+  });
+
+  it("returns the differing fields with the stored and received values", () => {
+    const candidate: RequestIdentifier = {
+      ...base,
+      fingerprint: createIdempotencyFingerprint("fp2"),
+      requestQuery: "dryRun=true",
+    };
+
+    expect(findRequestMismatches(base, candidate)).toStrictEqual([
+      { field: "requestQuery", received: "dryRun=true", stored: "" },
+      { field: "fingerprint", received: "fp2", stored: "fp1" },
+    ]);
+  });
+
+  it("treats missing fields of a stored request as their defaults", () => {
+    // Simulate a request stored before the query and scoping were introduced
+    const storedRequest = {
+      ...base,
+      requestQuery: undefined,
+      scope: undefined,
+    };
+
+    expect(
+      findRequestMismatches(
+        storedRequest as unknown as RequestIdentifier,
+        base,
+      ),
+    ).toStrictEqual([]);
+  });
 });
@@ -11,6 +11,13 @@ export type RequestIdentifier = {
    */
   requestPath: string;
 
+  /**
+   * Normalized query string of the request, without the leading `?`
+   *
+   * Parameters are sorted by name. Empty if the request has no query parameters.
+   */
+  requestQuery: string;
+
   /**
    * `Idempotency-Key` header value
    */
@@ -22,16 +29,78 @@ export type RequestIdentifier = {
    * This is used to identify the request in the storage.
    */
   fingerprint: IdempotencyFingerprint | null;
+
+  /**
+   * Scope of the request, e.g. a tenant ID or a hashed `Authorization` header
+   *
+   * `null` if `getScope` is not configured.
+   */
+  scope: string | null;
+};
+
+/**
+ * A field of `RequestIdentifier` that differs between the stored request and the received request
+ */
+export type RequestMismatch = {
+  field: keyof RequestIdentifier;
+
+  /**
+   * Value of the received request
+   */
+  received: string | null;
+
+  /**
+   * Value of the stored request
+   */
+  stored: string | null;
+};
+
+const COMPARED_FIELDS = [
+  "requestMethod",
+  "requestPath",
+  "requestQuery",
+  "idempotencyKey",
+  "fingerprint",
+  "scope",
+] as const satisfies ReadonlyArray<keyof RequestIdentifier>;
+
+/**
+ * Normalize a field of a stored request.
+ *
+ * Requests stored before the query or scoping was introduced have no such field.
+ */
+const getFieldValue = (
+  identifier: RequestIdentifier,
+  field: (typeof COMPARED_FIELDS)[number],
+): string | null => {
+  const value = identifier[field] as string | null | undefined;
+  if (field === "requestQuery") {
+    return value ?? "";
+  }
+  return value ?? null;
+};
+
+/**
+ * Find the fields that differ between the stored request and the received request.
+ *
+ * @param target - The stored request
+ * @param candidate - The received request
+ * @returns The differing fields, or an empty array if the requests are identical
+ */
+export const findRequestMismatches = (
+  target: RequestIdentifier,
+  candidate: RequestIdentifier,
+): RequestMismatch[] => {
+  return COMPARED_FIELDS.flatMap((field) => {
+    const stored = getFieldValue(target, field);
+    const received = getFieldValue(candidate, field);
+    return stored === received ? [] : [{ field, received, stored }];
+  });
 };
 
 export const isIdenticalRequest = (
   target: RequestIdentifier,
   candidate: RequestIdentifier,
 ): boolean => {
-  return (
-    target.requestMethod === candidate.requestMethod &&
-    target.requestPath === candidate.requestPath &&
-    target.idempotencyKey === candidate.idempotencyKey &&
-    target.fingerprint === candidate.fingerprint
-  );
+  return findRequestMismatches(target, candidate).length === 0;
 };
@@ -1,13 +1,76 @@
 export { createIdempotencyFingerprint, createStorageKey } from "./brand";
 export type { IdempotencyFingerprint, StorageKey } from "./brand";
 
-export { IdempotencyKeyStorageError, UnsafeImplementationError } from "./error";
+export {
+  IdempotencyKeyStorageError,
+  IdempotencyLockLostError,
+  UnsafeImplementationError,
+} from "./error";
+
+export {
+  createBytesFingerprintGenerator,
+  createFormUrlEncodedFingerprintGenerator,
+  createJsonFingerprintGenerator,
+  createMultipartFingerprintGenerator,
+} from "./fingerprint";
+export type {
+  FingerprintGenerator,
+  FingerprintGeneratorOptions,
+} from "./fingerprint";
+
+export { handleIdempotentRequestError } from "./handler-error";
+export type { HandlerErrorPolicy } from "./handler-error";
 
 export type { IdempotentRequest } from "./idempotent-request";
 
+export type { RequestMismatch } from "./identifier";
+
+export {
+  anyOfKeyExtractors,
+  createBodyFieldKeyExtractor,
+  createHeaderKeyExtractor,
+  createQueryKeyExtractor,
+} from "./key-extractor";
+export type { KeyExtractionResult, KeyExtractor } from "./key-extractor";
+
+export type { IdempotencyKeyParsing } from "./key-header";
+
+export {
+  allOfKeyValidators,
+  anyOfKeyValidators,
+  createOpaqueTokenKeyValidator,
+  createUlidKeyValidator,
+  createUuidKeyValidator,
+} from "./key-validator";
+export type { KeyValidator } from "./key-validator";
+
 export { idempotentRequestUniversalMiddleware } from "./middleware";
 export type { IdempotentRequestImplementation } from "./middleware";
 
-export type { SerializedResponse } from "./serializer";
-export type { IdempotentRequestServerSpecification } from "./server/specification";
-export type { IdempotentRequestStorageAdapter } from "./storage/adapter";
+export { defaultShouldStoreResponse } from "./response-policy";
+export type { ShouldStoreResponse } from "./response-policy";
+
+export type {
+  SerializedResponse,
+  SerializedResponseBodyEncoding,
+} from "./serializer";
+export { createDefaultSpecification } from "./server/default-specification";
+export type { DefaultSpecificationOptions } from "./server/default-specification";
+export type { RequestNormalizationOptions } from "./server/normalize";
+export type {
+  IdempotentRequestServerSpecification,
+  KeySpecResult,
+} from "./server/specification";
+
+export { createSignedKeyIssuer } from "./signed-key";
+export type { SignedKeyIssuer, SignedKeyOptions } from "./signed-key";
+
+export type {
+  IdempotentRequestStorageAdapter,
+  ListExpiredOptions,
+  ListExpiredResult,
+} from "./storage/adapter";
+export { createInMemoryStorageAdapter } from "./storage/in-memory";
+export type { InMemoryStorageAdapterOptions } from "./storage/in-memory";
+export { sweepExpiredIdempotentRequests } from "./storage/sweep";
+export type { SweepExpiredOptions, SweepExpiredResult } from "./storage/sweep";
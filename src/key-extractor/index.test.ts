@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  anyOfKeyExtractors,
+  createBodyFieldKeyExtractor,
+  createHeaderKeyExtractor,
+  createQueryKeyExtractor,
+} from "./index";
+
+describe("createHeaderKeyExtractor", () => {
+  it("reads the Idempotency-Key header by default", async () => {
+    const extractor = createHeaderKeyExtractor();
+    const request = new Request("http://localhost/", {
+      headers: { "Idempotency-Key": '"key"' },
+    });
+
+    expect(extractor.name).toBe("Idempotency-Key");
+    expect(await extractor.extract(request)).toStrictEqual({
+      key: "key",
+      type: "found",
+    });
+  });
+
+  it("reads a header with a custom name", async () => {
+    const extractor = createHeaderKeyExtractor({ name: "X-Idempotency-Key" });
+    const request = new Request("http://localhost/", {
+      headers: { "X-Idempotency-Key": "key" },
+    });
+
+    expect(await extractor.extract(request)).toStrictEqual({
+      key: "key",
+      type: "found",
+    });
+  });
+
+  it("returns missing when the header is not sent", async () => {
+    const extractor = createHeaderKeyExtractor();
+
+    expect(
+      await extractor.extract(new Request("http://localhost/")),
+    ).toStrictEqual({ type: "missing" });
+  });
+
+  it("returns malformed when the header is not an sf-string in strict mode", async () => {
+    const extractor = createHeaderKeyExtractor({ parsing: "strict" });
+    const request = new Request("http://localhost/", {
+      headers: { "Idempotency-Key": "key" },
+    });
+
+    expect(await extractor.extract(request)).toMatchObject({
+      type: "malformed",
+    });
+  });
+});
+
+describe("createQueryKeyExtractor", () => {
+  const extractor = createQueryKeyExtractor({ name: "idempotency_key" });
+
+  it("reads the query parameter", async () => {
+    expect(
+      await extractor.extract(
+        new Request("http://localhost/?idempotency_key=key"),
+      ),
+    ).toStrictEqual({ key: "key", type: "found" });
+  });
+
+  it("returns missing when the query parameter is not sent", async () => {
+    expect(
+      await extractor.extract(new Request("http://localhost/")),
+    ).toStrictEqual({ type: "missing" });
+  });
+});
+
+describe("createBodyFieldKeyExtractor", () => {
+  const extractor = createBodyFieldKeyExtractor({ name: "idempotency_key" });
+
+  it("reads a field of a JSON body", async () => {
+    const request = new Request("http://localhost/", {
+      body: JSON.stringify({ idempotency_key: "key" }),
+      headers: { "Content-Type": "application/json" },
+      method: "POST",
+    });
+
+    expect(await extractor.extract(request)).toStrictEqual({
+      key: "key",
+      type: "found",
+    });
+  });
+
+  it("reads a field of a form-urlencoded body", async () => {
+    const request = new Request("http://localhost/", {
+      body: new URLSearchParams({ idempotency_key: "key" }),
+      method: "POST",
+    });
+
+    expect(await extractor.extract(request)).toStrictEqual({
+      key: "key",
+      type: "found",
+    });
+  });
+
+  it("reads a field of a multipart body", async () => {
+    const formData = new FormData();
+    formData.append("idempotency_key", "key");
+    const request = new Request("http://localhost/", {
+      body: formData,
+      method: "POST",
+    });
+
+    expect(await extractor.extract(request)).toStrictEqual({
+      key: "key",
+      type: "found",
+    });
+  });
+
+  it.each(["application/x-www-form-urlencoded", "multipart/form-data"])(
+    "reads a field of a %s body re-serialized as JSON",
+    async (contentType) => {
+      const request = new Request("http://localhost/", {
+        body: JSON.stringify({ idempotency_key: "key" }),
+        headers: { "Content-Type": contentType },
+        method: "POST",
+      });
+
+      expect(await extractor.extract(request)).toStrictEqual({
+        key: "key",
+        type: "found",
+      });
+    },
+  );
+
+  it("returns malformed when the field is not a string", async () => {
+    const request = new Request("http://localhost/", {
+      body: JSON.stringify({ idempotency_key: 1 }),
+      headers: { "Content-Type": "application/json" },
+      method: "POST",
+    });
+
+    expect(await extractor.extract(request)).toStrictEqual({
+      detail: "The idempotency_key field must be a string.",
+      type: "malformed",
+    });
+  });
+
+  it.each([
+    ["the field is not sent", JSON.stringify({}), "application/json"],
+    ["the body is invalid JSON", "{", "application/json"],
+    ["the body is not an object", "[]", "application/json"],
+    ["the body type is not supported", "key", "text/plain"],
+    [
+      "the form field is not sent",
+      "name=John",
+      "application/x-www-form-urlencoded",
+    ],
+  ])("returns missing when %s", async (_, body, contentType) => {
+    const request = new Request("http://localhost/", {
+      body,
+      headers: { "Content-Type": contentType },
+      method: "POST",
+    });
+
+    expect(await extractor.extract(request)).toStrictEqual({
+      type: "missing",
+    });
+  });
+});
+
+describe("anyOfKeyExtractors", () => {
+  const extractor = anyOfKeyExtractors(
+    createHeaderKeyExtractor(),
+    createHeaderKeyExtractor({ name: "X-Idempotency-Key" }),
+  );
+
+  it("uses the name of the first extractor", () => {
+    expect(extractor.name).toBe("Idempotency-Key");
+  });
+
+  it("reads the key from the first source that carries it", async () => {
+    const request = new Request("http://localhost/", {
+      headers: { "X-Idempotency-Key": "legacy-key" },
+    });
+
+    expect(await extractor.extract(request)).toStrictEqual({
+      key: "legacy-key",
+      type: "found",
+    });
+  });
+
+  it("returns missing when no source carries the key", async () => {
+    expect(
+      await extractor.extract(new Request("http://localhost/")),
+    ).toStrictEqual({ type: "missing" });
+  });
+});
@@ -0,0 +1,198 @@
+import type { IdempotencyKeyParsing } from "../key-header";
+import type { MaybePromise } from "../utils/types";
+
+import { parseIdempotencyKeyHeader } from "../key-header";
+import { parseFormData } from "../utils/form-data";
+
+/**
+ * Result of extracting an idempotency key from a request
+ *
+ * - `"found"`: The key is found.
+ * - `"malformed"`: The key is sent, but it cannot be read. `detail` explains the expected format.
+ * - `"missing"`: The key is not sent.
+ */
+export type KeyExtractionResult =
+  | { detail: string; type: "malformed" }
+  | { key: string; type: "found" }
+  | { type: "missing" };
+
+/**
+ * Extractor of an idempotency key from a request
+ */
+export interface KeyExtractor {
+  /**
+   * Extract the key from the request.
+   *
+   * The request may be a clone, so that the body can be read.
+   */
+  extract(request: Request): MaybePromise<KeyExtractionResult>;
+
+  /**
+   * Name of the key, used in error responses, e.g. `"Idempotency-Key"`
+   */
+  name: string;
+}
+
+const MISSING = { type: "missing" } as const satisfies KeyExtractionResult;
+
+/**
+ * Create an extractor that reads the key from a request header.
+ *
+ * @param options.name - Header name
+ * @param options.parsing - Parsing mode of the header value. See `IdempotencyKeyParsing`.
+ * @returns Key extractor
+ */
+export const createHeaderKeyExtractor = ({
+  name = "Idempotency-Key",
+  parsing = "compat",
+}: {
+  name?: string;
+  parsing?: IdempotencyKeyParsing;
+} = {}): KeyExtractor => {
+  return {
+    extract(request) {
+      const value = request.headers.get(name);
+      if (value == null) {
+        return MISSING;
+      }
+
+      const key = parseIdempotencyKeyHeader(value, parsing);
+      if (key == null) {
+        return {
+          detail: `The ${name} header must be a Structured Field string as defined in RFC 8941, e.g. "8e03978e-40d5-43e8-bc93-6894a57f9324" with the quotes.`,
+          type: "malformed",
+        };
+      }
+
+      return { key, type: "found" };
+    },
+    name,
+  };
+};
+
+/**
+ * Create an extractor that reads the key from a query parameter.
+ *
+ * @param options.name - Query parameter name
+ * @returns Key extractor
+ */
+export const createQueryKeyExtractor = ({
+  name,
+}: {
+  name: string;
+}): KeyExtractor => {
+  return {
+    extract(request) {
+      const key = new URL(request.url).searchParams.get(name);
+      return key == null ? MISSING : { key, type: "found" };
+    },
+    name,
+  };
+};
+
+const getJsonField = (body: unknown, name: string): unknown => {
+  return typeof body === "object" && body != null && !Array.isArray(body)
+    ? (body as Record<string, unknown>)[name]
+    : undefined;
+};
+
+const readBodyField = async (
+  request: Request,
+  name: string,
+): Promise<unknown> => {
+  const contentType = request.headers.get("Content-Type") ?? "";
+
+  try {
+    if (/^application\/(?:[\w.+-]+\+)?json\b/i.test(contentType)) {
+      return getJsonField(await request.json(), name);
+    }
+
+    if (
+      /^(?:application\/x-www-form-urlencoded|multipart\/form-data)\b/i.test(
+        contentType,
+      )
+    ) {
+      const value = await parseFormData(request.clone())
+        .then((formData) => formData.get(name))
+        .catch(() => null);
+      if (value != null) {
+        return value;
+      }
+
+      // Some adapters (e.g. Elysia) re-serialize a parsed form body as JSON, keeping the form Content-Type.
+      return getJsonField(await request.json(), name);
+    }
+  } catch {
+    // An unreadable body carries no key.
+  }
+
+  return undefined;
+};
+
+/**
+ * Create an extractor that reads the key from a field of the request body.
+ *
+ * JSON, form-urlencoded and multipart bodies are supported.
+ * Useful for HTML forms, which can only carry the key as a hidden field.
+ *
+ * @param options.name - Field name
+ * @returns Key extractor
+ */
+export const createBodyFieldKeyExtractor = ({
+  name,
+}: {
+  name: string;
+}): KeyExtractor => {
+  return {
+    async extract(request) {
+      const value = await readBodyField(request, name);
+      if (value === undefined) {
+        return MISSING;
+      }
+
+      if (typeof value !== "string") {
+        return {
+          detail: `The ${name} field must be a string.`,
+          type: "malformed",
+        };
+      }
+
+      return { key: value, type: "found" };
+    },
+    name,
+  };
+};
+
+/**
+ * Combine extractors, so that the key is read from the first source that carries it.
+ *
+ * The name of the first extractor is used in error responses.
+ *
+ * @example
+ * ```ts
+ * // Accept `X-Idempotency-Key` from legacy clients
+ * anyOfKeyExtractors(
+ *   createHeaderKeyExtractor(),
+ *   createHeaderKeyExtractor({ name: "X-Idempotency-Key" }),
+ * );
+ * ```
+ *
+ * @param extractors - Extractors tried in order
+ * @returns Key extractor
+ */
+export const anyOfKeyExtractors = (
+  ...extractors: [KeyExtractor, ...KeyExtractor[]]
+): KeyExtractor => {
+  return {
+    async extract(request) {
+      for (const extractor of extractors) {
+        const result = await extractor.extract(request.clone());
+        if (result.type !== "missing") {
+          return result;
+        }
+      }
+      return MISSING;
+    },
+    name: extractors[0].name,
+  };
+};
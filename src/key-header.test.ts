@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  parseIdempotencyKeyHeader,
+  parseStructuredFieldString,
+} from "./key-header";
+
+describe("parseStructuredFieldString", () => {
+  it("parses a quoted string", () => {
+    expect(
+      parseStructuredFieldString('"8e03978e-40d5-43e8-bc93-6894a57f9324"'),
+    ).toBe("8e03978e-40d5-43e8-bc93-6894a57f9324");
+  });
+
+  it("parses an empty string", () => {
+    expect(parseStructuredFieldString('""')).toBe("");
+  });
+
+  it("unescapes quotes and backslashes", () => {
+    expect(parseStructuredFieldString(String.raw`"a\"b\\c"`)).toBe(
+      String.raw`a"b\c`,
+    );
+  });
+
+  it("ignores surrounding spaces", () => {
+    expect(parseStructuredFieldString(' "key" ')).toBe("key");
+  });
+
+  it.each([
+    ["a bare token", "key"],
+    ["a missing closing quote", '"key'],
+    ["an escaped closing quote", String.raw`"key\"`],
+    ["an invalid escape", String.raw`"k\ey"`],
+    ["trailing characters", '"key"x'],
+    ["parameters", '"key";a=1'],
+    ["a non-ASCII character", '"kéy"'],
+    ["a control character", '"k\tey"'],
+  ])("rejects %s", (_, value) => {
+    expect(parseStructuredFieldString(value)).toBeNull();
+  });
+});
+
+describe("parseIdempotencyKeyHeader", () => {
+  it("parses a quoted key in strict mode", () => {
+    expect(parseIdempotencyKeyHeader('"key"', "strict")).toBe("key");
+  });
+
+  it("rejects a bare key in strict mode", () => {
+    expect(parseIdempotencyKeyHeader("key", "strict")).toBeNull();
+  });
+
+  it("parses a quoted key in compat mode", () => {
+    expect(parseIdempotencyKeyHeader('"key"', "compat")).toBe("key");
+  });
+
+  it("accepts a bare key as is in compat mode", () => {
+    expect(parseIdempotencyKeyHeader("key", "compat")).toBe("key");
+  });
+
+  it("rejects a malformed quoted key in compat mode", () => {
+    expect(parseIdempotencyKeyHeader('"key', "compat")).toBeNull();
+  });
+});
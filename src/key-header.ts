@@ -0,0 +1,78 @@
+/**
+ * Parsing mode of the `Idempotency-Key` header
+ *
+ * - `"strict"`: The value must be an sf-string, e.g. `"8e03978e-40d5-43e8-bc93-6894a57f9324"`.
+ * - `"compat"`: A quoted value must be an sf-string, and any other value is used as is.
+ *   This keeps accepting clients sending a bare key, e.g. `8e03978e-40d5-43e8-bc93-6894a57f9324`.
+ */
+export type IdempotencyKeyParsing = "compat" | "strict";
+
+const DQUOTE = '"';
+const BACKSLASH = "\\";
+
+/**
+ * Parse an sf-string of Structured Field Values for HTTP.
+ *
+ * Parameters are not defined for the `Idempotency-Key` header, so they are rejected.
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8941#section-4.2.5 RFC 8941 Section 4.2.5}
+ *
+ * @param value - Field value
+ * @returns The unescaped string, or `null` if the value is malformed
+ */
+export const parseStructuredFieldString = (value: string): string | null => {
+  const input = value.trim();
+  if (!input.startsWith(DQUOTE)) {
+    return null;
+  }
+
+  let output = "";
+  for (let index = 1; index < input.length; index++) {
+    const character = input.charAt(index);
+
+    if (character === BACKSLASH) {
+      index++;
+      const escaped = input.charAt(index);
+      if (escaped !== DQUOTE && escaped !== BACKSLASH) {
+        return null;
+      }
+      output += escaped;
+      continue;
+    }
+
+    if (character === DQUOTE) {
+      // Nothing may follow the closing quote.
+      return index === input.length - 1 ? output : null;
+    }
+
+    // Only printable ASCII characters are allowed.
+    const codePoint = character.codePointAt(0) ?? 0;
+    if (codePoint < 32 || codePoint > 126) {
+      return null;
+    }
+    output += character;
+  }
+
+  // The closing quote is missing.
+  return null;
+};
+
+/**
+ * Parse the value of the `Idempotency-Key` header.
+ *
+ * @see {@link https://datatracker.ietf.org/doc/html/draft-ietf-httpapi-idempotency-key-header-06#section-2.1}
+ *
+ * @param value - Value of the `Idempotency-Key` header
+ * @param parsing - Parsing mode
+ * @returns The idempotency key, or `null` if the value is malformed
+ */
+export const parseIdempotencyKeyHeader = (
+  value: string,
+  parsing: IdempotencyKeyParsing,
+): string | null => {
+  if (parsing === "compat" && !value.trim().startsWith(DQUOTE)) {
+    return value;
+  }
+
+  return parseStructuredFieldString(value);
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  allOfKeyValidators,
+  anyOfKeyValidators,
+  createOpaqueTokenKeyValidator,
+  createUlidKeyValidator,
+  createUuidKeyValidator,
+} from ".";
+
+const UUID_V4 = "9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d";
+const UUID_V7 = "01890a5d-ac96-774b-bcce-b302099a8057";
+const UUID_V1 = "c232ab00-9414-11ec-b3c8-9f6bdeced846";
+const ULID = "01ARZ3NDEKTSV4RRFFQ69G5FAV";
+
+describe("createUuidKeyValidator", () => {
+  it.each([
+    ["any", UUID_V1, true],
+    ["any", UUID_V4, true],
+    ["any", UUID_V7, true],
+    [4, UUID_V4, true],
+    [4, UUID_V4.toUpperCase(), true],
+    [4, UUID_V7, false],
+    [7, UUID_V7, true],
+    [7, UUID_V4, false],
+  ] as const)("version %s accepts %s: %s", (version, key, expected) => {
+    expect(createUuidKeyValidator({ version })(key)).toBe(expected);
+  });
+
+  it.each([
+    "00000000-0000-0000-0000-000000000000",
+    "ffffffff-ffff-ffff-ffff-ffffffffffff",
+    "9b1deb4d-3b7d-4bad-7bdd-2b0d7b3dcb6d",
+    "9b1deb4d3b7d4bad9bdd2b0d7b3dcb6d",
+    `${UUID_V4} `,
+    "",
+  ])("rejects %j", (key) => {
+    expect(createUuidKeyValidator()(key)).toBe(false);
+  });
+});
+
+describe("createUlidKeyValidator", () => {
+  it.each([
+    [ULID, true],
+    [ULID.toLowerCase(), true],
+    ["7ZZZZZZZZZZZZZZZZZZZZZZZZZ", true],
+    ["8ZZZZZZZZZZZZZZZZZZZZZZZZZ", false],
+    ["01ARZ3NDEKTSV4RRFFQ69G5FAU", false],
+    ["01ARZ3NDEKTSV4RRFFQ69G5FA", false],
+    [UUID_V4, false],
+  ])("accepts %s: %s", (key, expected) => {
+    expect(createUlidKeyValidator()(key)).toBe(expected);
+  });
+});
+
+describe("createOpaqueTokenKeyValidator", () => {
+  it.each([
+    ["a".repeat(16), true],
+    ["a".repeat(15), false],
+    ["a".repeat(255), true],
+    ["a".repeat(256), false],
+    ["abc_DEF-123_ghi-456", true],
+    ["abc+DEF/123=ghi456", false],
+  ])("accepts %s with the default options: %s", (key, expected) => {
+    expect(createOpaqueTokenKeyValidator()(key)).toBe(expected);
+  });
+
+  it("accepts the custom length and charset", () => {
+    const validate = createOpaqueTokenKeyValidator({
+      charset: /[\da-f]/g,
+      maxLength: 8,
+      minLength: 4,
+    });
+
+    expect(validate("beef")).toBe(true);
+    expect(validate("deadbeef")).toBe(true);
+    // The global flag does not make the validator stateful.
+    expect(validate("deadbeef")).toBe(true);
+    expect(validate("BEEF")).toBe(false);
+    expect(validate("abc")).toBe(false);
+    expect(validate("deadbeef0")).toBe(false);
+  });
+});
+
+describe("allOfKeyValidators", () => {
+  it("accepts the key only if all validators accept it", () => {
+    const validate = allOfKeyValidators(
+      createOpaqueTokenKeyValidator({ minLength: 1 }),
+      (key) => key.startsWith("order_"),
+    );
+
+    expect(validate("order_123")).toBe(true);
+    expect(validate("user_123")).toBe(false);
+    expect(validate("order_12+3")).toBe(false);
+  });
+});
+
+describe("anyOfKeyValidators", () => {
+  it("accepts the key if any validator accepts it", () => {
+    const validate = anyOfKeyValidators(
+      createUuidKeyValidator({ version: 7 }),
+      createUlidKeyValidator(),
+    );
+
+    expect(validate(UUID_V7)).toBe(true);
+    expect(validate(ULID)).toBe(true);
+    expect(validate(UUID_V4)).toBe(false);
+  });
+});
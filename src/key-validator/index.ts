@@ -0,0 +1,124 @@
+/**
+ * A function that can be used as `satisfiesKeySpec` of `IdempotentRequestServerSpecification`.
+ */
+export type KeyValidator = (idempotencyKey: string) => boolean;
+
+const UUID_PATTERN =
+  /^[\da-f]{8}-[\da-f]{4}-(?<version>[1-8])[\da-f]{3}-[89ab][\da-f]{3}-[\da-f]{12}$/i;
+
+/**
+ * Crockford's Base32 without `I`, `L`, `O` and `U`.
+ * The first character is at most `7`, since a ULID is 128 bits.
+ *
+ * @see {@link https://github.com/ulid/spec}
+ */
+const ULID_PATTERN = /^[0-7][\dA-HJKMNP-TV-Z]{25}$/i;
+
+/**
+ * Create a validator that accepts UUIDs in the RFC 9562 format.
+ *
+ * The UUID is case-insensitive. The nil and max UUIDs are rejected.
+ *
+ * @see {@link https://datatracker.ietf.org/doc/html/rfc9562 RFC 9562}
+ *
+ * @param options.version - Accepted UUID version. `"any"` accepts version 1 to 8.
+ * @returns Key validator
+ */
+export const createUuidKeyValidator = ({
+  version = "any",
+}: {
+  version?: 4 | 7 | "any";
+} = {}): KeyValidator => {
+  return (idempotencyKey) => {
+    const match = UUID_PATTERN.exec(idempotencyKey);
+    if (match == null) {
+      return false;
+    }
+
+    return version === "any" || match.groups?.["version"] === String(version);
+  };
+};
+
+/**
+ * Create a validator that accepts ULIDs.
+ *
+ * The ULID is case-insensitive.
+ *
+ * @see {@link https://github.com/ulid/spec}
+ *
+ * @returns Key validator
+ */
+export const createUlidKeyValidator = (): KeyValidator => {
+  return (idempotencyKey) => ULID_PATTERN.test(idempotencyKey);
+};
+
+/**
+ * Create a validator that accepts opaque tokens with length and character-set limits.
+ *
+ * @param options.minLength - Minimum length of the key
+ * @param options.maxLength - Maximum length of the key
+ * @param options.charset - A pattern that matches a single allowed character. Defaults to URL-safe Base64 characters.
+ * @returns Key validator
+ */
+export const createOpaqueTokenKeyValidator = ({
+  charset = /[\w-]/,
+  maxLength = 255,
+  minLength = 16,
+}: {
+  charset?: RegExp;
+  maxLength?: number;
+  minLength?: number;
+} = {}): KeyValidator => {
+  // Match the whole key with the charset, ignoring stateful flags.
+  const pattern = new RegExp(
+    `^(?:${charset.source})*$`,
+    charset.flags.replaceAll(/[gy]/g, ""),
+  );
+
+  return (idempotencyKey) =>
+    idempotencyKey.length >= minLength &&
+    idempotencyKey.length <= maxLength &&
+    pattern.test(idempotencyKey);
+};
+
+/**
+ * Compose validators that all must accept the key.
+ *
+ * @example
+ * ```ts
+ * satisfiesKeySpec: allOfKeyValidators(
+ *   createOpaqueTokenKeyValidator({ maxLength: 64 }),
+ *   (key) => key.startsWith("order_"),
+ * ),
+ * ```
+ *
+ * @param validators - Validators to compose
+ * @returns Key validator
+ */
+export const allOfKeyValidators = (
+  ...validators: KeyValidator[]
+): KeyValidator => {
+  return (idempotencyKey) =>
+    validators.every((validator) => validator(idempotencyKey));
+};
+
+/**
+ * Compose validators of which at least one must accept the key.
+ *
+ * @example
+ * ```ts
+ * satisfiesKeySpec: anyOfKeyValidators(
+ *   createUuidKeyValidator({ version: 7 }),
+ *   createUlidKeyValidator(),
+ * ),
+ * ```
+ *
+ * @param validators - Validators to compose
+ * @returns Key validator
+ */
+export const anyOfKeyValidators = (
+  ...validators: KeyValidator[]
+): KeyValidator => {
+  return (idempotencyKey) =>
+    validators.some((validator) => validator(idempotencyKey));
+};
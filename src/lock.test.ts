@@ -0,0 +1,267 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { ProcessingIdempotentRequest } from "./idempotent-request";
+
+import { createStorageKey } from "./brand";
+import {
+  createBackoff,
+  getLockAge,
+  getRetryAfterSeconds,
+  isLockExpired,
+  startHeartbeat,
+} from "./lock";
+
+describe("isLockExpired", () => {
+  const lockedRequest: ProcessingIdempotentRequest = {
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    expiresAt: null,
+    fingerprint: null,
+    idempotencyKey: "key1",
+    lockedAt: new Date("2024-01-01T00:00:00.000Z"),
+    lockToken: "lock-token",
+    requestMethod: "POST",
+    requestPath: "/api/test",
+    requestQuery: "",
+    response: null,
+    scope: null,
+    storageKey: createStorageKey("key1"),
+  };
+
+  it("returns false when lease duration is not specified", () => {
+    expect(
+      isLockExpired(
+        lockedRequest,
+        undefined,
+        new Date("2100-01-01T00:00:00.000Z"),
+      ),
+    ).toBe(false);
+  });
+
+  it("returns false when the lock is within the lease", () => {
+    expect(
+      isLockExpired(
+        lockedRequest,
+        60_000,
+        new Date("2024-01-01T00:00:59.999Z"),
+      ),
+    ).toBe(false);
+  });
+
+  it("returns true when the lease has passed", () => {
+    expect(
+      isLockExpired(
+        lockedRequest,
+        60_000,
+        new Date("2024-01-01T00:01:00.000Z"),
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("getLockAge", () => {
+  const lockedRequest: ProcessingIdempotentRequest = {
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    expiresAt: null,
+    fingerprint: null,
+    idempotencyKey: "key1",
+    lockedAt: new Date("2024-01-01T00:00:00.000Z"),
+    lockToken: "lock-token",
+    requestMethod: "POST",
+    requestPath: "/api/test",
+    requestQuery: "",
+    response: null,
+    scope: null,
+    storageKey: createStorageKey("key1"),
+  };
+
+  it("returns the elapsed time since the lock was acquired", () => {
+    expect(
+      getLockAge(lockedRequest, new Date("2024-01-01T00:00:01.500Z")),
+    ).toBe(1500);
+  });
+
+  it("returns 0 when the clock is behind the lock time", () => {
+    expect(
+      getLockAge(lockedRequest, new Date("2023-12-31T23:59:59.000Z")),
+    ).toBe(0);
+  });
+});
+
+describe("getRetryAfterSeconds", () => {
+  const lockedRequest: ProcessingIdempotentRequest = {
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    expiresAt: null,
+    fingerprint: null,
+    idempotencyKey: "key1",
+    lockedAt: new Date("2024-01-01T00:00:00.000Z"),
+    lockToken: "lock-token",
+    requestMethod: "POST",
+    requestPath: "/api/test",
+    requestQuery: "",
+    response: null,
+    scope: null,
+    storageKey: createStorageKey("key1"),
+  };
+
+  it("returns undefined when lease duration is not specified", () => {
+    expect(
+      getRetryAfterSeconds(
+        lockedRequest,
+        undefined,
+        new Date("2024-01-01T00:00:01.000Z"),
+      ),
+    ).toBeUndefined();
+  });
+
+  it("returns the remaining lease rounded up to seconds", () => {
+    expect(
+      getRetryAfterSeconds(
+        lockedRequest,
+        30_000,
+        new Date("2024-01-01T00:00:10.500Z"),
+      ),
+    ).toBe(20);
+  });
+
+  it("returns at least 1 second", () => {
+    expect(
+      getRetryAfterSeconds(
+        lockedRequest,
+        30_000,
+        new Date("2024-01-01T00:01:00.000Z"),
+      ),
+    ).toBe(1);
+  });
+
+  it("returns the whole lease when the locked request is unknown", () => {
+    expect(getRetryAfterSeconds(null, 30_000)).toBe(30);
+  });
+});
+
+describe("startHeartbeat", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("calls beat at the interval until stopped", async () => {
+    const beat = vi.fn().mockResolvedValue(true);
+
+    const stop = startHeartbeat(100, beat);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(beat).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(201);
+    expect(beat).toHaveBeenCalledTimes(3);
+
+    await stop();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(beat).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops when beat returns false", async () => {
+    const beat = vi.fn().mockResolvedValue(false);
+
+    startHeartbeat(100, beat);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(beat).toHaveBeenCalledOnce();
+  });
+
+  it("stops when beat throws", async () => {
+    const beat = vi.fn().mockRejectedValue(new Error("beat failed"));
+
+    startHeartbeat(100, beat);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(beat).toHaveBeenCalledOnce();
+  });
+
+  it("stops when the maximum duration has passed", async () => {
+    const beat = vi.fn().mockResolvedValue(true);
+
+    startHeartbeat(100, beat, 250);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(beat).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits for the in-flight beat when stopped", async () => {
+    let resolveBeat: ((shouldContinue: boolean) => void) | undefined;
+    const beat = vi.fn(
+      async () =>
+        await new Promise<boolean>((resolve) => {
+          resolveBeat = resolve;
+        }),
+    );
+
+    const stop = startHeartbeat(100, beat);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(beat).toHaveBeenCalledOnce();
+
+    let isStopped = false;
+    const stopping = stop().then(() => {
+      isStopped = true;
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(isStopped).toBe(false);
+
+    resolveBeat?.(true);
+    await stopping;
+    expect(isStopped).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(beat).toHaveBeenCalledOnce();
+  });
+});
+
+describe("createBackoff", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("doubles the interval up to the max interval", async () => {
+    const backoff = createBackoff({
+      initialInterval: 100,
+      maxInterval: 300,
+      timeout: 10_000,
+    });
+
+    const waitedIntervals: number[] = [];
+    for (let index = 0; index < 4; index++) {
+      const startedAt = Date.now();
+      const waiting = backoff.wait();
+      await vi.runAllTimersAsync();
+      expect(await waiting).toBe(true);
+      waitedIntervals.push(Date.now() - startedAt);
+    }
+
+    expect(waitedIntervals).toStrictEqual([100, 200, 300, 300]);
+  });
+
+  it("returns false once the timeout has passed", async () => {
+    const backoff = createBackoff({ initialInterval: 100, timeout: 250 });
+
+    const waitedIntervals: number[] = [];
+    for (;;) {
+      const startedAt = Date.now();
+      const waiting = backoff.wait();
+      await vi.runAllTimersAsync();
+      if (!(await waiting)) {
+        break;
+      }
+      waitedIntervals.push(Date.now() - startedAt);
+    }
+
+    // The last interval is capped to the remaining time.
+    expect(waitedIntervals).toStrictEqual([100, 150]);
+  });
+});
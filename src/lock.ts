@@ -0,0 +1,175 @@
+import type { ProcessingIdempotentRequest } from "./idempotent-request";
+
+/**
+ * Check if the lock of the request is expired.
+ *
+ * A request whose lock is expired is treated as abandoned,
+ * e.g. the process holding the lock crashed before storing the response.
+ *
+ * @param request - The locked request
+ * @param leaseDuration - Lock lease duration in milliseconds. `undefined` means the lock never expires.
+ * @param now - Current time
+ * @returns Whether the lock is expired
+ */
+export const isLockExpired = (
+  request: ProcessingIdempotentRequest,
+  leaseDuration: number | undefined,
+  now: Date = new Date(),
+): boolean => {
+  if (leaseDuration == null) {
+    return false;
+  }
+
+  return now.getTime() - request.lockedAt.getTime() >= leaseDuration;
+};
+
+/**
+ * Get the age of the lock of the request.
+ *
+ * @param request - The locked request
+ * @param now - Current time
+ * @returns Lock age in milliseconds
+ */
+export const getLockAge = (
+  request: ProcessingIdempotentRequest,
+  now: Date = new Date(),
+): number => {
+  return Math.max(now.getTime() - request.lockedAt.getTime(), 0);
+};
+
+/**
+ * Get the delay after which a conflicting request should be retried.
+ *
+ * This is the remaining time until the lock lease expires,
+ * rounded up to whole seconds for the `Retry-After` header.
+ *
+ * @param request - The locked request. `null` if the lock has just been acquired by another request.
+ * @param leaseDuration - Lock lease duration in milliseconds. `undefined` means the lock never expires.
+ * @param now - Current time
+ * @returns Delay in seconds, or `undefined` if the lock never expires
+ */
+export const getRetryAfterSeconds = (
+  request: ProcessingIdempotentRequest | null,
+  leaseDuration: number | undefined,
+  now: Date = new Date(),
+): number | undefined => {
+  if (leaseDuration == null) {
+    return undefined;
+  }
+
+  const lockAge = request == null ? 0 : getLockAge(request, now);
+  return Math.max(Math.ceil((leaseDuration - lockAge) / 1000), 1);
+};
+
+/**
+ * Start a heartbeat that runs periodically until stopped.
+ *
+ * The next beat is scheduled only after the previous beat has settled,
+ * so beats never overlap.
+ * No beat is scheduled after `maxDuration` has passed since the start,
+ * so that the heartbeat stops even if the stop function is never called.
+ *
+ * @param interval - Heartbeat interval in milliseconds
+ * @param beat - Function called on each beat. Return `false` or throw to stop the heartbeat.
+ * @param maxDuration - Maximum duration of the heartbeat in milliseconds
+ * @returns Function to stop the heartbeat. It resolves after the in-flight beat has settled.
+ */
+export const startHeartbeat = (
+  interval: number,
+  beat: () => Promise<boolean>,
+  maxDuration = Infinity,
+): (() => Promise<void>) => {
+  const deadline = Date.now() + maxDuration;
+  let isStopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let inFlightBeat: Promise<void> | undefined;
+
+  const schedule = () => {
+    if (Date.now() + interval > deadline) {
+      return;
+    }
+
+    timer = setTimeout(() => {
+      inFlightBeat = beat()
+        .catch(() => false)
+        .then((shouldContinue) => {
+          inFlightBeat = undefined;
+          if (shouldContinue && !isStopped) {
+            schedule();
+          }
+        });
+    }, interval);
+  };
+
+  schedule();
+
+  return async () => {
+    isStopped = true;
+    clearTimeout(timer);
+    await inFlightBeat;
+  };
+};
+
+export interface BackoffOptions {
+  /**
+   * Initial polling interval in milliseconds.
+   *
+   * The interval doubles after each poll.
+   *
+   * @default 50
+   */
+  initialInterval?: number;
+
+  /**
+   * Maximum polling interval in milliseconds.
+   *
+   * @default 1000
+   */
+  maxInterval?: number;
+
+  /**
+   * Maximum time to wait in milliseconds.
+   */
+  timeout: number;
+}
+
+interface Backoff {
+  /**
+   * Wait for the next polling.
+   *
+   * @returns `true` if waited, `false` if the timeout has passed.
+   */
+  wait(): Promise<boolean>;
+}
+
+/**
+ * Create an exponential backoff for polling.
+ *
+ * The timeout starts when this function is called.
+ *
+ * @param options - Backoff options
+ * @returns Backoff
+ */
+export const createBackoff = ({
+  initialInterval = 50,
+  maxInterval = 1000,
+  timeout,
+}: BackoffOptions): Backoff => {
+  const deadline = Date.now() + timeout;
+  let interval = initialInterval;
+
+  return {
+    async wait() {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return false;
+      }
+
+      const delay = Math.min(interval, remaining);
+      interval = Math.min(interval * 2, maxInterval);
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return true;
+    },
+  };
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import type { IdempotentRequestImplementation } from "./middleware";
+
+import { UnsafeImplementationError } from "./error";
+import { idempotentRequestUniversalMiddleware } from "./middleware";
+import { createDefaultSpecification } from "./server/default-specification";
+import { createInMemoryStorageAdapter } from "./storage/in-memory";
+
+const createImplementation = (
+  implementation: Partial<IdempotentRequestImplementation> = {},
+): IdempotentRequestImplementation => ({
+  server: { specification: createDefaultSpecification() },
+  storage: { adapter: createInMemoryStorageAdapter() },
+  ...implementation,
+});
+
+describe("idempotentRequestUniversalMiddleware", () => {
+  it("creates the middleware with the default options", () => {
+    expect(
+      idempotentRequestUniversalMiddleware(createImplementation()),
+    ).toBeTypeOf("function");
+  });
+
+  it.each<[string, Partial<IdempotentRequestImplementation>]>([
+    ["the lease is zero", { lock: { leaseDuration: 0 } }],
+    ["the lease is negative", { lock: { leaseDuration: -1 } }],
+    ["the lease is not finite", { lock: { leaseDuration: Infinity } }],
+    [
+      "the wait timeout is not positive",
+      { lock: { waitForCompletion: { timeout: 0 } } },
+    ],
+    [
+      "the initial wait interval is not positive",
+      { lock: { waitForCompletion: { initialInterval: -1, timeout: 1000 } } },
+    ],
+    [
+      "the maximum wait interval is not finite",
+      {
+        lock: { waitForCompletion: { maxInterval: Number.NaN, timeout: 1000 } },
+      },
+    ],
+    [
+      "the heartbeat interval is not shorter than the lease",
+      { lock: { heartbeatInterval: 1000, leaseDuration: 1000 } },
+    ],
+    ["the heartbeat has no lease", { lock: { heartbeatInterval: 1000 } }],
+    [
+      "the maximum heartbeat duration is not positive",
+      {
+        lock: {
+          heartbeatInterval: 1000,
+          leaseDuration: 5000,
+          maxHeartbeatDuration: 0,
+        },
+      },
+    ],
+    [
+      "the retention is not positive",
+      {
+        storage: {
+          adapter: createInMemoryStorageAdapter(),
+          retention: 0,
+        },
+      },
+    ],
+    [
+      "the delete policy is used without adapter.delete",
+      {
+        handlerErrorPolicy: "delete",
+        storage: {
+          adapter: { ...createInMemoryStorageAdapter(), delete: undefined },
+        },
+      },
+    ],
+  ])(
+    "throws UnsafeImplementationError when created if %s",
+    (_, implementation) => {
+      expect(() =>
+        idempotentRequestUniversalMiddleware(
+          createImplementation(implementation),
+        ),
+      ).toThrowError(UnsafeImplementationError);
+    },
+  );
+});
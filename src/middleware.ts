@@ -2,24 +2,51 @@
 
 import type { Get, UniversalMiddleware } from "@universal-middleware/core";
 
+import type { HandlerErrorPolicy } from "./handler-error";
 import type { Hooks } from "./hooks";
-import type { UnProcessedIdempotentRequest } from "./idempotent-request";
+import type {
+  IdempotentRequest,
+  ProcessingIdempotentRequest,
+  UnProcessedIdempotentRequest,
+} from "./idempotent-request";
+import type { RequestMismatch } from "./identifier";
+import type { KeyExtractor } from "./key-extractor";
+import type { BackoffOptions } from "./lock";
+import type { ShouldStoreResponse } from "./response-policy";
+import type { SerializedResponse } from "./serializer";
+import type { RequestNormalizationOptions } from "./server/normalize";
 import type { IdempotentRequestServerSpecification } from "./server/specification";
 import type { IdempotentRequestStorageAdapter } from "./storage/adapter";
 import type { IdempotencyActivationStrategy } from "./strategy";
+import type { MaybePromise } from "./utils/types";
 
 import {
   IDEMPOTENCY_KEY_CONFLICT_ERROR_RESPONSE,
+  IDEMPOTENCY_KEY_INVALID_ERROR_RESPONSE,
+  IDEMPOTENCY_KEY_MALFORMED_ERROR_RESPONSE,
   IDEMPOTENCY_KEY_MISSING_ERROR_RESPONSE,
   IDEMPOTENCY_KEY_PAYLOAD_MISMATCH_ERROR_RESPONSE,
+  IDEMPOTENT_REQUEST_HANDLER_ERROR_RESPONSE,
 } from "./constants/response";
-import { UnsafeImplementationError } from "./error";
+import { IdempotencyLockLostError, UnsafeImplementationError } from "./error";
+import { registerHandlerErrorHandler } from "./handler-error";
 import { resolveHooks } from "./hooks";
-import { isIdenticalRequest } from "./identifier";
+import { findRequestMismatches } from "./identifier";
+import { createHeaderKeyExtractor } from "./key-extractor";
+import {
+  createBackoff,
+  getLockAge,
+  getRetryAfterSeconds,
+  isLockExpired,
+  startHeartbeat,
+} from "./lock";
+import { defaultShouldStoreResponse } from "./response-policy";
+import { getExpiresAt } from "./retention";
 import { cloneAndSerializeResponse, deserializeResponse } from "./serializer";
 import { createIdempotentRequestServer } from "./server";
 import { createIdempotentRequestStorage } from "./storage";
 import { prepareActivationStrategy } from "./strategy";
+import { captureStream } from "./stream";
 
 export interface IdempotentRequestImplementation {
   /**
@@ -27,11 +54,11 @@ export interface IdempotentRequestImplementation {
    *
    * As a string:
    * - `"always"`: Always apply idempotency processing
-   * - `"opt-in"`: Apply idempotency processing only if the Idempotency-Key header exists
+   * - `"opt-in"`: Apply idempotency processing only if the key exists, as read by `keyExtractor`
    *
    * As a function:
    * - A function that determines whether to apply idempotency processing using custom logic
-   *   - YOU MUST CHECK EXISTENCE OF `Idempotency-Key` HEADER.
+   *   - YOU MUST CHECK EXISTENCE OF THE KEY, e.g. the `Idempotency-Key` header.
    *   - Useful when you are using strategies like feature flags
    *   - Return `true` to apply idempotency processing, `false` otherwise
    *
@@ -48,8 +75,168 @@ export interface IdempotentRequestImplementation {
    */
   activationStrategy?: IdempotencyActivationStrategy;
 
+  /**
+   * Get the scope of the request, e.g. a tenant ID or a hashed `Authorization` header.
+   *
+   * The scope is folded into the storage key and the stored request,
+   * so that a different caller reusing the same `Idempotency-Key` never receives someone else's stored response.
+   *
+   * Return a constant (e.g. `"anonymous"`) for unauthenticated requests.
+   * Do not return a raw credential, since the scope is stored as is.
+   *
+   * If not specified, requests are not scoped.
+   *
+   * @see {@link https://datatracker.ietf.org/doc/html/draft-ietf-httpapi-idempotency-key-header-06#section-5 Security Considerations}
+   *
+   * @example
+   * ```ts
+   * (request) => request.headers.get("X-Tenant-Id") ?? "anonymous";
+   * ```
+   */
+  getScope?: (request: Request) => MaybePromise<string>;
+
+  /**
+   * Policy for handling a request whose route handler has thrown an error
+   *
+   * - `"release"`: Release the lock without storing any response, so that a retried request is processed again.
+   * - `"store"`: Store a synthesized 500 response, so that a retried request receives it.
+   * - `"delete"`: Delete the stored request. The storage adapter must implement `delete`.
+   *
+   * Depending on the framework, you need to call `handleIdempotentRequestError` from the error handler of your framework.
+   * See `handleIdempotentRequestError` for details.
+   *
+   * @default "release"
+   */
+  handlerErrorPolicy?: HandlerErrorPolicy;
+
   hooks?: Partial<Hooks>;
 
+  /**
+   * Extractor of the idempotency key from the request
+   *
+   * The same extractor is used by the `"opt-in"` activation strategy,
+   * and its name is shown in the 400 Bad Request responses for a missing or malformed key.
+   *
+   * The default reads the `Idempotency-Key` header, which the draft defines as an sf-string of RFC 8941.
+   * Both quoted and bare keys are accepted.
+   * Use `createHeaderKeyExtractor({ parsing: "strict" })` to accept only quoted keys.
+   *
+   * @default createHeaderKeyExtractor()
+   *
+   * @example
+   * ```ts
+   * // Accept `X-Idempotency-Key` from legacy clients, and a hidden field from HTML forms
+   * anyOfKeyExtractors(
+   *   createHeaderKeyExtractor(),
+   *   createHeaderKeyExtractor({ name: "X-Idempotency-Key" }),
+   *   createBodyFieldKeyExtractor({ name: "idempotency_key" }),
+   * );
+   * ```
+   */
+  keyExtractor?: KeyExtractor;
+
+  /**
+   * Lock options
+   */
+  lock?: {
+    /**
+     * Lock lease duration in milliseconds.
+     *
+     * If a stored request has been locked longer than this duration,
+     * the lock is treated as abandoned (e.g. the process crashed while processing the request),
+     * and a retried request takes over the lock.
+     *
+     * This should be longer than the maximum processing time of the route handler.
+     * It must be a positive number.
+     *
+     * If not specified, the lock never expires.
+     */
+    leaseDuration?: number;
+
+    /**
+     * Lock heartbeat interval in milliseconds.
+     *
+     * While the route handler is running, the lock is refreshed at this interval,
+     * so that a long-running request is not taken over by a retried request.
+     *
+     * The heartbeat stops when the response is stored.
+     * Heartbeat failures are reported to `hooks.onHeartbeatError`.
+     *
+     * This must be shorter than `leaseDuration`.
+     *
+     * If not specified, the lock is not refreshed.
+     */
+    heartbeatInterval?: number;
+
+    /**
+     * Maximum duration of the lock heartbeat in milliseconds.
+     *
+     * The heartbeat stops after this duration even if the response is not stored,
+     * e.g. the route handler has thrown on a framework whose error handler does not call `handleIdempotentRequestError`.
+     * Then the lock expires after `leaseDuration`, and a retried request takes over the lock.
+     *
+     * This should be longer than the maximum processing time of the route handler.
+     *
+     * @default 600000 (10 minutes)
+     */
+    maxHeartbeatDuration?: number;
+
+    /**
+     * Include the age of the in-flight lock in the 409 Conflict response body.
+     *
+     * The age is added as the `lockAge` member (in seconds) of the problem details.
+     *
+     * @default false
+     */
+    exposeLockAge?: boolean;
+
+    /**
+     * Wait for the original request to complete, instead of replying 409 Conflict immediately.
+     *
+     * When a retried request arrives while the original request is being processed,
+     * the middleware polls the storage with exponential backoff until the original request completes.
+     * Then the stored response is returned.
+     *
+     * If the original request does not complete within `timeout`, 409 Conflict is returned.
+     *
+     * If not specified, 409 Conflict is returned immediately.
+     */
+    waitForCompletion?: BackoffOptions;
+  };
+
+  /**
+   * Verbosity of the 422 Unprocessable Content response for a key reused with a different request
+   *
+   * - `"none"`: Do not include the differing fields.
+   * - `"fields"`: Include the names of the differing fields, e.g. `"mismatches": ["requestPath"]`.
+   * - `"values"`: Include the differing fields with the stored and received values,
+   *   e.g. `"mismatches": [{ "field": "requestPath", "received": "/b", "stored": "/a" }]`.
+   *   This exposes the stored request to the client, so use it for debugging.
+   *
+   * `hooks.modifyResponse` always receives the differing fields with the values, regardless of this option.
+   *
+   * @default "none"
+   */
+  payloadMismatchVerbosity?: "fields" | "none" | "values";
+
+  /**
+   * Normalization of the request URL when identifying the request
+   *
+   * The normalized path and query string are stored with the request,
+   * and reusing a key with a different path or query string results in 422 Unprocessable Content.
+   * `getStorageKey` and `getFingerprint` of the server specification receive the request with the normalized URL,
+   * so that equivalent URLs share the stored request.
+   *
+   * @example
+   * ```ts
+   * {
+   *   ignoredQueryParameters: ["utm_source", "utm_medium"],
+   *   trailingSlash: "ignore",
+   * }
+   * ```
+   */
+  requestNormalization?: RequestNormalizationOptions;
+
   /**
    * Server options
    */
@@ -60,26 +247,258 @@ export interface IdempotentRequestImplementation {
     specification: IdempotentRequestServerSpecification;
   };
 
+  /**
+   * Policy for deciding whether to store the response of the route handler.
+   *
+   * If the policy returns `false`, the lock is released without storing the response,
+   * and a retried request is processed again.
+   *
+   * The body of the request may already be consumed by the route handler.
+   *
+   * @default defaultShouldStoreResponse - Does not store server errors (5xx), 408 and 429.
+   *
+   * @example
+   * ```ts
+   * // Store all responses
+   * () => true;
+   * ```
+   */
+  shouldStoreResponse?: ShouldStoreResponse;
+
   /**
    * Storage options
    *
-   * You should implement features like TTL, cleanup, etc. at this layer.
+   * You should implement features like cleanup, etc. at this layer.
    */
   storage: {
     /**
      * Storage adapter implementation.
      */
     adapter: IdempotentRequestStorageAdapter;
+
+    /**
+     * Retention of stored requests in milliseconds
+     *
+     * A stored request expires at `createdAt + retention`, and it is given to the adapter as `expiresAt`,
+     * so that the adapter can expire it natively (e.g. with the TTL of the storage).
+     * The middleware treats an expired request as absent, whatever the adapter does,
+     * so a retried request with the same key is processed again.
+     *
+     * This should be longer than the period in which clients retry requests.
+     *
+     * If not specified, stored requests never expire.
+     */
+    retention?: number;
+  };
+
+  /**
+   * Streaming response options
+   *
+   * If specified, the response body is streamed to the client immediately,
+   * and a copy of the body is captured in the background and stored once the stream completes.
+   * The lock heartbeat keeps running until the stream completes.
+   *
+   * - If the stream completes, the captured response is stored.
+   * - If the stream errors partway, `handlerErrorPolicy` is applied, because the response is incomplete.
+   * - If the client cancels the stream, the capture still reads the stream to the end, so the complete response is stored.
+   * - If the body exceeds `maxBodySize`, the capture stops and the lock is released without storing the response.
+   *
+   * `shouldStoreResponse` receives the response without the body, since the body is not available yet.
+   * Background failures are reported to `hooks.onStreamCaptureError`.
+   *
+   * On Cloudflare Workers, the capture is registered with `waitUntil`.
+   * On other serverless runtimes, make sure the process lives until the stream completes.
+   *
+   * If not specified, the whole response body is buffered before it is returned to the client.
+   */
+  streaming?: {
+    /**
+     * Maximum size of the captured response body in bytes.
+     *
+     * @default 10485760 (10 MiB)
+     */
+    maxBodySize?: number;
   };
 }
 
-export const idempotentRequestUniversalMiddleware = ((impl) =>
-  async (request) => {
-    const idempotencyStrategyFunction = prepareActivationStrategy(
-      impl.activationStrategy ?? "always",
+const DEFAULT_STREAMING_MAX_BODY_SIZE = 10 * 1024 * 1024;
+
+const DEFAULT_MAX_HEARTBEAT_DURATION = 10 * 60 * 1000;
+
+const isPositiveNumber = (value: number): boolean =>
+  Number.isFinite(value) && value > 0;
+
+/**
+ * Create a 409 Conflict response for a request whose key is outstanding.
+ *
+ * If the lock lease is configured, the `Retry-After` header tells when the lock expires.
+ */
+const createConflictResponse = (
+  lockedRequest: ProcessingIdempotentRequest | null,
+  lock: IdempotentRequestImplementation["lock"],
+): SerializedResponse => {
+  const now = new Date();
+  const retryAfter = getRetryAfterSeconds(
+    lockedRequest,
+    lock?.leaseDuration,
+    now,
+  );
+
+  return {
+    ...IDEMPOTENCY_KEY_CONFLICT_ERROR_RESPONSE,
+    body:
+      lock?.exposeLockAge === true && lockedRequest != null
+        ? JSON.stringify({
+            ...JSON.parse(IDEMPOTENCY_KEY_CONFLICT_ERROR_RESPONSE.body),
+            lockAge: Math.floor(getLockAge(lockedRequest, now) / 1000),
+          })
+        : IDEMPOTENCY_KEY_CONFLICT_ERROR_RESPONSE.body,
+    headers: {
+      ...IDEMPOTENCY_KEY_CONFLICT_ERROR_RESPONSE.headers,
+      ...(retryAfter == null ? {} : { "Retry-After": String(retryAfter) }),
+    },
+  };
+};
+
+/**
+ * Create a 400 Bad Request response for a request without a usable key.
+ *
+ * The title names the key of the extractor, e.g. `X-Idempotency-Key is missing`.
+ */
+const createKeyErrorResponse = (
+  response:
+    | typeof IDEMPOTENCY_KEY_INVALID_ERROR_RESPONSE
+    | typeof IDEMPOTENCY_KEY_MALFORMED_ERROR_RESPONSE
+    | typeof IDEMPOTENCY_KEY_MISSING_ERROR_RESPONSE,
+  keyName: string,
+  {
+    detail,
+    reason,
+  }: {
+    /** Replaces the detail of the response */
+    detail?: string;
+    /** Appended to the detail of the response */
+    reason?: string;
+  } = {},
+): SerializedResponse => {
+  const body = JSON.parse(response.body) as { detail: string; title: string };
+  const baseDetail = detail ?? body.detail;
+
+  return {
+    ...response,
+    body: JSON.stringify({
+      detail: reason == null ? baseDetail : `${baseDetail} ${reason}`,
+      title: body.title.replace("Idempotency-Key", keyName),
+    }),
+  };
+};
+
+/**
+ * Create a 422 Unprocessable Content response for a request reusing a key.
+ *
+ * Depending on the verbosity, the differing fields are added as the `mismatches` member of the problem details.
+ */
+const createPayloadMismatchResponse = (
+  mismatches: readonly RequestMismatch[],
+  verbosity: NonNullable<
+    IdempotentRequestImplementation["payloadMismatchVerbosity"]
+  >,
+): SerializedResponse => {
+  if (verbosity === "none") {
+    return IDEMPOTENCY_KEY_PAYLOAD_MISMATCH_ERROR_RESPONSE;
+  }
+
+  return {
+    ...IDEMPOTENCY_KEY_PAYLOAD_MISMATCH_ERROR_RESPONSE,
+    body: JSON.stringify({
+      ...JSON.parse(IDEMPOTENCY_KEY_PAYLOAD_MISMATCH_ERROR_RESPONSE.body),
+      mismatches:
+        verbosity === "fields"
+          ? mismatches.map(({ field }) => field)
+          : mismatches,
+    }),
+  };
+};
+
+/**
+ * Create the idempotent request middleware.
+ *
+ * @param impl - Implementation of the middleware
+ * @returns Universal middleware
+ * @throws {UnsafeImplementationError}
+ * If the options are not safe. They are checked when the middleware is created, not on each request.
+ */
+export const idempotentRequestUniversalMiddleware = ((impl) => {
+  const keyExtractor = impl.keyExtractor ?? createHeaderKeyExtractor();
+  const idempotencyStrategyFunction = prepareActivationStrategy(
+    impl.activationStrategy ?? "always",
+    keyExtractor,
+  );
+  const hooks = resolveHooks(impl.hooks);
+
+  const server = createIdempotentRequestServer(
+    impl.server.specification,
+    impl.requestNormalization,
+  );
+  const storage = createIdempotentRequestStorage(impl.storage.adapter);
+
+  const leaseDuration = impl.lock?.leaseDuration;
+  if (
+    leaseDuration != null &&
+    (!Number.isFinite(leaseDuration) || leaseDuration <= 0)
+  ) {
+    throw new UnsafeImplementationError(
+      "The lock lease duration must be a positive number.",
+    );
+  }
+
+  const waitForCompletion = impl.lock?.waitForCompletion;
+  if (
+    waitForCompletion != null &&
+    (!isPositiveNumber(waitForCompletion.timeout) ||
+      (waitForCompletion.initialInterval !== undefined &&
+        !isPositiveNumber(waitForCompletion.initialInterval)) ||
+      (waitForCompletion.maxInterval !== undefined &&
+        !isPositiveNumber(waitForCompletion.maxInterval)))
+  ) {
+    throw new UnsafeImplementationError(
+      "The timeout and the intervals of waiting for completion must be positive numbers.",
+    );
+  }
+
+  const heartbeatInterval = impl.lock?.heartbeatInterval;
+  if (
+    heartbeatInterval != null &&
+    (leaseDuration == null || heartbeatInterval >= leaseDuration)
+  ) {
+    throw new UnsafeImplementationError(
+      "The lock heartbeat interval must be shorter than the lock lease duration.",
+    );
+  }
+
+  const maxHeartbeatDuration =
+    impl.lock?.maxHeartbeatDuration ?? DEFAULT_MAX_HEARTBEAT_DURATION;
+  if (!(maxHeartbeatDuration > 0)) {
+    throw new UnsafeImplementationError(
+      "The maximum duration of the lock heartbeat must be a positive number.",
+    );
+  }
+
+  const retention = impl.storage.retention;
+  if (retention != null && (!Number.isFinite(retention) || retention <= 0)) {
+    throw new UnsafeImplementationError(
+      "The retention of stored requests must be a positive number.",
     );
-    const hooks = resolveHooks(impl.hooks);
+  }
 
+  const handlerErrorPolicy = impl.handlerErrorPolicy ?? "release";
+  if (handlerErrorPolicy === "delete" && !impl.storage.adapter.delete) {
+    throw new UnsafeImplementationError(
+      "The storage adapter must implement `delete` to use the `delete` handler error policy.",
+    );
+  }
+
+  return async (request, context, runtime) => {
     const isIdempotencyEnabled = await idempotencyStrategyFunction(
       request.clone(),
     );
@@ -88,22 +507,62 @@ export const idempotentRequestUniversalMiddleware = ((impl) =>
       return;
     }
 
-    const server = createIdempotentRequestServer(impl.server.specification);
-    const storage = createIdempotentRequestStorage(impl.storage.adapter);
-
-    const idempotencyKey = request.headers.get("Idempotency-Key");
-    if (idempotencyKey == null || !server.satisfiesKeySpec(idempotencyKey)) {
+    const extraction = await keyExtractor.extract(request.clone());
+    if (extraction.type === "missing") {
       return await hooks.modifyResponse(
-        deserializeResponse(IDEMPOTENCY_KEY_MISSING_ERROR_RESPONSE),
+        deserializeResponse(
+          createKeyErrorResponse(
+            IDEMPOTENCY_KEY_MISSING_ERROR_RESPONSE,
+            keyExtractor.name,
+          ),
+        ),
         "key_missing",
       );
     }
 
+    if (extraction.type === "malformed") {
+      return await hooks.modifyResponse(
+        deserializeResponse(
+          createKeyErrorResponse(
+            IDEMPOTENCY_KEY_MALFORMED_ERROR_RESPONSE,
+            keyExtractor.name,
+            { detail: extraction.detail },
+          ),
+        ),
+        "key_malformed",
+      );
+    }
+
+    const idempotencyKey = extraction.key;
+    const keySpecResult = await server.satisfiesKeySpec(
+      idempotencyKey,
+      request.clone(),
+    );
+    if (keySpecResult !== true) {
+      return await hooks.modifyResponse(
+        deserializeResponse(
+          createKeyErrorResponse(
+            IDEMPOTENCY_KEY_INVALID_ERROR_RESPONSE,
+            keyExtractor.name,
+            keySpecResult === false ? {} : { reason: keySpecResult.reason },
+          ),
+        ),
+        "key_invalid",
+      );
+    }
+
+    const scope = impl.getScope ? await impl.getScope(request.clone()) : null;
+
     const storageKey = await server.getStorageKey({
       idempotencyKey,
       request: request.clone(),
+      scope,
     });
-    if (!storageKey.includes(idempotencyKey)) {
+    // The key may be percent-encoded, e.g. by `createDefaultSpecification`.
+    if (
+      !storageKey.includes(idempotencyKey) &&
+      !storageKey.includes(encodeURIComponent(idempotencyKey))
+    ) {
       throw new UnsafeImplementationError(
         "The storage-key must include the value of the `Idempotency-Key` header.",
       );
@@ -112,55 +571,244 @@ export const idempotentRequestUniversalMiddleware = ((impl) =>
     const requestIdentifier = await server.getRequestIdentifier({
       idempotencyKey,
       request: request.clone(),
+      scope,
     });
 
-    const storeResult = await storage.findOrCreate({
-      ...requestIdentifier,
-      storageKey,
-    });
+    const backoff =
+      waitForCompletion == null ? undefined : createBackoff(waitForCompletion);
 
-    let unprocessedRequest: UnProcessedIdempotentRequest;
-    if (storeResult.created) {
-      unprocessedRequest = storeResult.request;
-    } else {
-      // Retried request - compare with the stored request
-      if (!isIdenticalRequest(storeResult.request, requestIdentifier)) {
-        return await hooks.modifyResponse(
-          deserializeResponse(IDEMPOTENCY_KEY_PAYLOAD_MISMATCH_ERROR_RESPONSE),
-          "key_payload_mismatch",
+    let acquiredRequest: ProcessingIdempotentRequest | null = null;
+    let isTakeover = false;
+    while (acquiredRequest == null) {
+      const createdAt = new Date();
+      const storeResult = await storage.findOrCreate({
+        ...requestIdentifier,
+        createdAt,
+        expiresAt: getExpiresAt(createdAt, impl.storage.retention),
+        storageKey,
+      });
+
+      let requestToLock:
+        | ProcessingIdempotentRequest
+        | UnProcessedIdempotentRequest;
+      let expiredRequest: IdempotentRequest | null = null;
+      isTakeover = false;
+      if (storeResult.created) {
+        requestToLock = storeResult.request;
+        ({ expiredRequest } = storeResult);
+      } else {
+        // Retried request - compare with the stored request
+        const mismatches = findRequestMismatches(
+          storeResult.request,
+          requestIdentifier,
         );
+        if (mismatches.length > 0) {
+          return await hooks.modifyResponse(
+            deserializeResponse(
+              createPayloadMismatchResponse(
+                mismatches,
+                impl.payloadMismatchVerbosity ?? "none",
+              ),
+            ),
+            "key_payload_mismatch",
+            { mismatches },
+          );
+        }
+
+        if (storeResult.request.lockedAt != null) {
+          if (!isLockExpired(storeResult.request, leaseDuration)) {
+            // Wait for the original request to complete, if enabled.
+            if ((await backoff?.wait()) === true) {
+              continue;
+            }
+
+            return await hooks.modifyResponse(
+              deserializeResponse(
+                createConflictResponse(storeResult.request, impl.lock),
+              ),
+              "key_conflict",
+            );
+          }
+
+          // The lock is abandoned. Take over the lock and process the request.
+          requestToLock = storeResult.request;
+          isTakeover = true;
+        } else if (storeResult.request.response) {
+          return await hooks.modifyResponse(
+            deserializeResponse(storeResult.request.response),
+            "retrieved_stored_response",
+          );
+        } else {
+          // If we reach this point, the previous request failed to acquire a lock.
+          // So just continue to re-try lock and process the request.
+          requestToLock = storeResult.request;
+        }
       }
 
-      if (storeResult.request.lockedAt != null) {
+      acquiredRequest = await storage.acquireLock(
+        requestToLock,
+        expiredRequest,
+      );
+      if (acquiredRequest == null && (await backoff?.wait()) !== true) {
+        // Another request has acquired the lock first.
         return await hooks.modifyResponse(
-          deserializeResponse(IDEMPOTENCY_KEY_CONFLICT_ERROR_RESPONSE),
+          deserializeResponse(createConflictResponse(null, impl.lock)),
           "key_conflict",
         );
       }
+    }
 
-      if (storeResult.request.response) {
-        return await hooks.modifyResponse(
-          deserializeResponse(storeResult.request.response),
-          "retrieved_stored_response",
-        );
+    let lockedRequest = acquiredRequest;
+    const stopHeartbeat =
+      heartbeatInterval == null
+        ? undefined
+        : startHeartbeat(
+            heartbeatInterval,
+            async () => {
+              try {
+                lockedRequest = await storage.refreshLock(lockedRequest);
+                return true;
+              } catch (error) {
+                await hooks.onHeartbeatError(error, lockedRequest);
+                // The lock is taken over by another request. No need to refresh anymore.
+                return !(error instanceof IdempotencyLockLostError);
+              }
+            },
+            maxHeartbeatDuration,
+          );
+
+    const applyHandlerErrorPolicy = async () => {
+      switch (handlerErrorPolicy) {
+        case "delete": {
+          await storage.deleteLocked(lockedRequest);
+          break;
+        }
+        case "release": {
+          await storage.releaseLock(lockedRequest);
+          break;
+        }
+        case "store": {
+          await storage.setResponseAndUnlock(
+            lockedRequest,
+            IDEMPOTENT_REQUEST_HANDLER_ERROR_RESPONSE,
+          );
+          break;
+        }
+        default: {
+          throw new Error(
+            `Invalid handler error policy: ${String(handlerErrorPolicy satisfies never)}`,
+          );
+        }
       }
+    };
 
-      // If we reach this point, the previous request failed to acquire a lock.
-      // So just continue to re-try lock and process the request.
-      unprocessedRequest = storeResult.request;
-    }
+    let hasHandlerFailed = false;
+    registerHandlerErrorHandler(context, async () => {
+      if (hasHandlerFailed) {
+        return;
+      }
+      hasHandlerFailed = true;
 
-    const lockedRequest = await storage.acquireLock(unprocessedRequest);
+      await stopHeartbeat?.();
+      await applyHandlerErrorPolicy();
+    });
 
     // The route handler is executed here.
 
     return async (serverResponse) => {
+      if (hasHandlerFailed) {
+        // The handler error policy has already been applied.
+        return await hooks.modifyResponse(serverResponse, "error");
+      }
+
       const modifiedResponse = await hooks.modifyResponse(
         serverResponse,
-        "success",
+        isTakeover ? "lock_takeover" : "success",
       );
 
-      // Even if route handler throws an error, this operation will be executed.
+      const shouldStoreResponse =
+        impl.shouldStoreResponse ?? defaultShouldStoreResponse;
+
+      if (impl.streaming != null && modifiedResponse.body != null) {
+        if (
+          !(await shouldStoreResponse(
+            new Response(null, modifiedResponse),
+            request,
+          ))
+        ) {
+          await stopHeartbeat?.();
+          // Let a retried request process the request again.
+          await storage.releaseLock(lockedRequest);
+          return modifiedResponse;
+        }
+
+        // Cloning tees the body, and the original response keeps one branch for the client.
+        // Some frameworks ignore a replaced response, so the original response must be returned.
+        const storageBody = modifiedResponse.clone().body;
+        const maxBodySize =
+          impl.streaming.maxBodySize ?? DEFAULT_STREAMING_MAX_BODY_SIZE;
+
+        const storeCapturedResponse = async () => {
+          const captureResult =
+            storageBody == null
+              ? ({ body: new Uint8Array(), type: "complete" } as const)
+              : await captureStream(storageBody, maxBodySize);
+
+          // Wait for the in-flight heartbeat, so that it does not overwrite the stored response.
+          await stopHeartbeat?.();
+
+          switch (captureResult.type) {
+            case "complete": {
+              await storage.setResponseAndUnlock(
+                lockedRequest,
+                await cloneAndSerializeResponse(
+                  new Response(captureResult.body, modifiedResponse),
+                ),
+              );
+              break;
+            }
+            case "error": {
+              // The response is incomplete. Treat it as a route handler error.
+              await applyHandlerErrorPolicy();
+              // Reported to `hooks.onStreamCaptureError` below.
+              throw captureResult.error;
+            }
+            case "too_large": {
+              // Let a retried request process the request again.
+              await storage.releaseLock(lockedRequest);
+              break;
+            }
+            default: {
+              throw new Error(
+                `Invalid stream capture result: ${String(captureResult satisfies never)}`,
+              );
+            }
+          }
+        };
+
+        const capturing = storeCapturedResponse()
+          .catch(async (error: unknown) => {
+            await hooks.onStreamCaptureError(error, lockedRequest);
+          })
+          .catch(() => {
+            // The response has already been returned, so an error thrown by the hook cannot be reported anywhere.
+          });
+        if (runtime.runtime === "workerd") {
+          runtime.ctx?.waitUntil?.(capturing);
+        }
+
+        return modifiedResponse;
+      }
+
+      // Wait for the in-flight heartbeat, so that it does not overwrite the stored response.
+      await stopHeartbeat?.();
+
+      if (!(await shouldStoreResponse(modifiedResponse.clone(), request))) {
+        // Let a retried request process the request again.
+        await storage.releaseLock(lockedRequest);
+        return modifiedResponse;
+      }
+
       await storage.setResponseAndUnlock(
         lockedRequest,
         await cloneAndSerializeResponse(modifiedResponse),
@@ -168,4 +816,5 @@ export const idempotentRequestUniversalMiddleware = ((impl) =>
 
       return modifiedResponse;
     };
-  }) satisfies Get<[IdempotentRequestImplementation], UniversalMiddleware>;
+  };
+}) satisfies Get<[IdempotentRequestImplementation], UniversalMiddleware>;
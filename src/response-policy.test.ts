@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+
+import { defaultShouldStoreResponse } from "./response-policy";
+
+describe("defaultShouldStoreResponse", () => {
+  const request = new Request("http://localhost/api/test", { method: "POST" });
+
+  it.each([200, 201, 204, 400, 404, 409, 422])(
+    "should store the response with status %i",
+    async (status) => {
+      const response = new Response(null, { status });
+
+      expect(await defaultShouldStoreResponse(response, request)).toBe(true);
+    },
+  );
+
+  it.each([408, 429, 500, 502, 503, 504])(
+    "should not store the response with status %i",
+    async (status) => {
+      const response = new Response(null, { status });
+
+      expect(await defaultShouldStoreResponse(response, request)).toBe(false);
+    },
+  );
+});
@@ -0,0 +1,44 @@
+import type { MaybePromise } from "./utils/types";
+
+/**
+ * Function type for deciding whether to store the response of the route handler
+ *
+ * Receives the response and the request, and returns a boolean indicating whether to store the response.
+ *
+ * Return `true` to store the response and replay it on retried requests.
+ * Return `false` to release the lock without storing the response, so that a retried request is processed again.
+ */
+export type ShouldStoreResponse = (
+  response: Response,
+  request: Request,
+) => MaybePromise<boolean>;
+
+/**
+ * HTTP status codes indicating that the request may succeed if retried later.
+ *
+ * - 408 Request Timeout
+ * - 429 Too Many Requests
+ */
+const RETRYABLE_CLIENT_ERROR_STATUSES: ReadonlySet<number> = new Set([
+  408, 429,
+]);
+
+/**
+ * Default policy for storing responses
+ *
+ * The draft expects the resource to reply with the stored result to a retried request,
+ * but a transient failure should not be replayed forever.
+ * So this policy does not store the following responses, and lets the client retry:
+ *
+ * - Server errors (5xx)
+ * - 408 Request Timeout, 429 Too Many Requests
+ *
+ * @see {@link https://datatracker.ietf.org/doc/html/draft-ietf-httpapi-idempotency-key-header-06#section-2.6}
+ */
+export const defaultShouldStoreResponse: ShouldStoreResponse = (response) => {
+  if (response.status >= 500) {
+    return false;
+  }
+
+  return !RETRYABLE_CLIENT_ERROR_STATUSES.has(response.status);
+};
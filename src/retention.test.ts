@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import type { UnProcessedIdempotentRequest } from "./idempotent-request";
+
+import { createStorageKey } from "./brand";
+import { getExpiresAt, isRequestExpired } from "./retention";
+
+describe("isRequestExpired", () => {
+  const request: UnProcessedIdempotentRequest = {
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    expiresAt: new Date("2024-01-02T00:00:00.000Z"),
+    fingerprint: null,
+    idempotencyKey: "key1",
+    lockedAt: null,
+    lockToken: null,
+    requestMethod: "POST",
+    requestPath: "/api/test",
+    requestQuery: "",
+    response: null,
+    scope: null,
+    storageKey: createStorageKey("key1"),
+  };
+
+  it("returns false before expiresAt", () => {
+    expect(
+      isRequestExpired(request, new Date("2024-01-01T23:59:59.999Z")),
+    ).toBe(false);
+  });
+
+  it("returns true at expiresAt", () => {
+    expect(
+      isRequestExpired(request, new Date("2024-01-02T00:00:00.000Z")),
+    ).toBe(true);
+  });
+
+  it("returns false when expiresAt is null", () => {
+    expect(
+      isRequestExpired(
+        { ...request, expiresAt: null },
+        new Date("2100-01-01T00:00:00.000Z"),
+      ),
+    ).toBe(false);
+  });
+
+  it("returns false when expiresAt is missing from a request stored before the retention was introduced", () => {
+    const legacyRequest = {
+      ...request,
+      expiresAt: undefined,
+    } as unknown as UnProcessedIdempotentRequest;
+
+    expect(
+      isRequestExpired(legacyRequest, new Date("2100-01-01T00:00:00.000Z")),
+    ).toBe(false);
+  });
+});
+
+describe("getExpiresAt", () => {
+  const createdAt = new Date("2024-01-01T00:00:00.000Z");
+
+  it("adds the retention to createdAt", () => {
+    expect(getExpiresAt(createdAt, 60 * 60 * 1000)).toStrictEqual(
+      new Date("2024-01-01T01:00:00.000Z"),
+    );
+  });
+
+  it("returns null when the retention is not specified", () => {
+    expect(getExpiresAt(createdAt)).toBe(null);
+  });
+});
@@ -0,0 +1,54 @@
+import type { IdempotentRequest } from "./idempotent-request";
+
+/**
+ * Check if the stored request is expired.
+ *
+ * Requests stored before the retention was introduced have no `expiresAt`, and never expire.
+ *
+ * @param request - The stored request
+ * @param now - Current time
+ * @returns Whether the request is expired
+ */
+export const isRequestExpired = (
+  request: IdempotentRequest,
+  now: Date = new Date(),
+): boolean => {
+  const expiresAt = request.expiresAt as Date | null | undefined;
+  if (expiresAt == null) {
+    return false;
+  }
+
+  return expiresAt.getTime() <= now.getTime();
+};
+
+/**
+ * Get the expiration of a request created at `createdAt`.
+ *
+ * @param createdAt - Time when the request is created
+ * @param retention - Retention in milliseconds. `undefined` means the request never expires.
+ * @returns The expiration, or `null` if the request never expires
+ */
+export const getExpiresAt = (
+  createdAt: Date,
+  retention?: number,
+): Date | null => {
+  return retention == null ? null : new Date(createdAt.getTime() + retention);
+};
+
+/**
+ * Check if the stored request is still the expired request observed before,
+ * i.e. no other request has replaced it since.
+ *
+ * @param storedRequest - The stored request
+ * @param expiredRequest - The expired request observed before
+ * @returns Whether the stored request is the expired request
+ */
+export const isSameExpiredRequest = (
+  storedRequest: IdempotentRequest,
+  expiredRequest: IdempotentRequest,
+): boolean => {
+  return (
+    storedRequest.lockToken === expiredRequest.lockToken &&
+    storedRequest.expiresAt?.getTime() === expiredRequest.expiresAt?.getTime()
+  );
+};
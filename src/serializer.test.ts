@@ -19,6 +19,7 @@ describe("serializeResponse", () => {
 
     expect(serialized).toStrictEqual({
       body: "Test body",
+      bodyEncoding: "text",
       headers: {
         "content-type": "text/plain",
         "x-test-header": "test-value",
@@ -45,6 +46,28 @@ describe("serializeResponse", () => {
     const body = await originalResponse.text();
     expect(body).toBe("Test body");
   });
+
+  it("can serialize a non-UTF-8 body as base64", async () => {
+    const response = new Response(new Uint8Array([137, 80, 78, 71]), {
+      headers: {
+        "Content-Type": "image/png",
+      },
+      status: 200,
+      statusText: "OK",
+    });
+
+    const serialized = await cloneAndSerializeResponse(response);
+
+    expect(serialized).toStrictEqual({
+      body: "iVBORw==",
+      bodyEncoding: "base64",
+      headers: {
+        "content-type": "image/png",
+      },
+      status: 200,
+      statusText: "OK",
+    });
+  });
 });
 
 describe("deserializeResponse", () => {
@@ -71,9 +94,37 @@ describe("deserializeResponse", () => {
 
     expect(await response.text()).toBe("Test body");
   });
+
+  it("can deserialize a base64 body", async () => {
+    const response = deserializeResponse({
+      body: "iVBORw==",
+      bodyEncoding: "base64",
+      headers: {},
+      status: 200,
+      statusText: "OK",
+    });
+
+    expect(new Uint8Array(await response.arrayBuffer())).toStrictEqual(
+      new Uint8Array([137, 80, 78, 71]),
+    );
+  });
+
+  it("treats a body without encoding as text", async () => {
+    const response = deserializeResponse({
+      body: "iVBORw==",
+      headers: {},
+      status: 200,
+      statusText: "OK",
+    });
+
+    expect(await response.text()).toBe("iVBORw==");
+  });
 });
 
 describe("BodyInit round-trip", () => {
+  // Larger than a chunk of base64 encoding
+  const BASE64_TEST_SIZE = 0x80_00 + 1;
+
   it("should round-trip string bodies", async () => {
     const response = new Response("Hello");
     const serialized = await cloneAndSerializeResponse(response);
@@ -174,4 +225,31 @@ describe("BodyInit round-trip", () => {
 
     expect(deserializedBody).toBe(actualBody);
   });
+
+  it("should round-trip binary bodies byte by byte", async () => {
+    const bytes = new Uint8Array(BASE64_TEST_SIZE);
+    for (let index = 0; index < bytes.length; index++) {
+      bytes[index] = (index * 31) % 256;
+    }
+    const response = new Response(bytes);
+    const serialized = await cloneAndSerializeResponse(response);
+
+    const deserialized = deserializeResponse(serialized);
+    const deserializedBody = new Uint8Array(await deserialized.arrayBuffer());
+
+    expect(serialized.bodyEncoding).toBe("base64");
+    expect(deserializedBody).toStrictEqual(bytes);
+  });
+
+  it("should round-trip UTF-8 bodies with BOM byte by byte", async () => {
+    const bytes = new Uint8Array([239, 187, 191, 72, 105]);
+    const response = new Response(bytes);
+    const serialized = await cloneAndSerializeResponse(response);
+
+    const deserialized = deserializeResponse(serialized);
+    const deserializedBody = new Uint8Array(await deserialized.arrayBuffer());
+
+    expect(serialized.bodyEncoding).toBe("text");
+    expect(deserializedBody).toStrictEqual(bytes);
+  });
 });
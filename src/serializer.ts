@@ -1,10 +1,71 @@
 export type SerializedResponse = {
   body: string;
+
+  /**
+   * Encoding of the body.
+   *
+   * - `"text"`: The body is UTF-8 text.
+   * - `"base64"`: The body is base64-encoded bytes, e.g. images, PDFs or protobuf.
+   *
+   * If omitted, the body is treated as text for compatibility with previously stored responses.
+   */
+  bodyEncoding?: SerializedResponseBodyEncoding;
   headers: Record<string, string>;
   status: number;
   statusText: string;
 };
 
+export type SerializedResponseBodyEncoding = "base64" | "text";
+
+/**
+ * Decoder that fails on non-UTF-8 bytes, and keeps BOM to reproduce the exact bytes.
+ */
+const utf8Decoder = new TextDecoder("utf8", { fatal: true, ignoreBOM: true });
+
+/**
+ * Chunk size for converting bytes to a binary string, to avoid exceeding the maximum call stack size.
+ */
+const BASE64_CHUNK_SIZE = 0x80_00;
+
+const encodeBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let index = 0; index < bytes.length; index += BASE64_CHUNK_SIZE) {
+    binary += String.fromCodePoint(
+      ...bytes.subarray(index, index + BASE64_CHUNK_SIZE),
+    );
+  }
+
+  return btoa(binary);
+};
+
+const decodeBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.codePointAt(index) ?? 0;
+  }
+
+  return bytes;
+};
+
+/**
+ * Serialize a response body.
+ *
+ * UTF-8 bodies are stored as text, and other bodies are stored as base64.
+ *
+ * @param bytes - The body bytes
+ * @returns The serialized body and its encoding
+ */
+const serializeBody = (
+  bytes: Uint8Array,
+): Pick<SerializedResponse, "body" | "bodyEncoding"> => {
+  try {
+    return { body: utf8Decoder.decode(bytes), bodyEncoding: "text" };
+  } catch {
+    return { body: encodeBase64(bytes), bodyEncoding: "base64" };
+  }
+};
+
 /**
  * Serialize a response to a serialized response.
  *
@@ -20,7 +81,7 @@ export const cloneAndSerializeResponse = async (
   // DO NOT REFERENCE ANY PROPERTIES OF THE ORIGINAL RESPONSE
 
   return {
-    body: await responseClone.text(),
+    ...serializeBody(new Uint8Array(await responseClone.arrayBuffer())),
     headers: Object.fromEntries(responseClone.headers.entries()),
     status: responseClone.status,
     statusText: responseClone.statusText,
@@ -35,11 +96,12 @@ export const cloneAndSerializeResponse = async (
  */
 export const deserializeResponse = ({
   body,
+  bodyEncoding,
   headers,
   status,
   statusText,
 }: SerializedResponse): Response => {
-  return new Response(body, {
+  return new Response(bodyEncoding === "base64" ? decodeBase64(body) : body, {
     headers: new Headers(headers),
     status,
     statusText,
@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+
+import { UnsafeImplementationError } from "../error";
+import { createDefaultSpecification } from "./default-specification";
+
+const UUID_V4 = "9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d";
+const UUID_V7 = "01890a5d-ac96-774b-bcce-b302099a8057";
+
+const createRequest = (url: string, body = '{"name":"John"}') =>
+  new Request(url, {
+    body,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    method: "POST",
+  });
+
+describe("createDefaultSpecification", () => {
+  describe("satisfiesKeySpec", () => {
+    const keyRequest = createRequest("http://localhost/orders");
+
+    it("accepts any UUID by default", async () => {
+      const specification = createDefaultSpecification();
+
+      expect(await specification.satisfiesKeySpec(UUID_V4, keyRequest)).toBe(
+        true,
+      );
+      expect(await specification.satisfiesKeySpec(UUID_V7, keyRequest)).toBe(
+        true,
+      );
+      expect(
+        await specification.satisfiesKeySpec("invalid-key", keyRequest),
+      ).toBe(false);
+    });
+
+    it("accepts the configured key format", async () => {
+      const specification = createDefaultSpecification({
+        keyFormat: "uuid-v7",
+      });
+
+      expect(await specification.satisfiesKeySpec(UUID_V7, keyRequest)).toBe(
+        true,
+      );
+      expect(await specification.satisfiesKeySpec(UUID_V4, keyRequest)).toBe(
+        false,
+      );
+    });
+
+    it("accepts opaque tokens", async () => {
+      const specification = createDefaultSpecification({
+        keyFormat: { maxLength: 8, minLength: 4, type: "opaque" },
+      });
+
+      expect(await specification.satisfiesKeySpec("abcd", keyRequest)).toBe(
+        true,
+      );
+      expect(await specification.satisfiesKeySpec("abc", keyRequest)).toBe(
+        false,
+      );
+    });
+
+    it("accepts a custom validator", async () => {
+      const specification = createDefaultSpecification({
+        keyFormat: (key) => key.startsWith("order_"),
+      });
+
+      expect(await specification.satisfiesKeySpec("order_1", keyRequest)).toBe(
+        true,
+      );
+      expect(await specification.satisfiesKeySpec("user_1", keyRequest)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("getStorageKey", () => {
+    it("includes the method, path and key by default", async () => {
+      const specification = createDefaultSpecification();
+
+      const storageKey = await specification.getStorageKey({
+        idempotencyKey: UUID_V4,
+        request: createRequest("http://localhost/api/users?page=1"),
+      });
+
+      expect(storageKey).toBe(`POST:%2Fapi%2Fusers:${UUID_V4}`);
+    });
+
+    it("uses the template", async () => {
+      const specification = createDefaultSpecification({
+        storageKeyTemplate: "idempotency/{key}/{method}/{path}",
+      });
+
+      const storageKey = await specification.getStorageKey({
+        idempotencyKey: UUID_V4,
+        request: createRequest("http://localhost/api"),
+      });
+
+      expect(storageKey).toBe(`idempotency/${UUID_V4}/POST/%2Fapi`);
+    });
+
+    it("encodes the values so that they cannot forge a separator", async () => {
+      const specification = createDefaultSpecification({
+        keyFormat: () => true,
+      });
+
+      const storageKey = await specification.getStorageKey({
+        idempotencyKey: "b:c",
+        request: createRequest("http://localhost/a"),
+      });
+      const otherStorageKey = await specification.getStorageKey({
+        idempotencyKey: "c",
+        request: createRequest("http://localhost/a:b"),
+      });
+
+      expect(storageKey).not.toBe(otherStorageKey);
+    });
+  });
+
+  describe("getFingerprint", () => {
+    it("uses canonical JSON by default", async () => {
+      const specification = createDefaultSpecification();
+
+      const fingerprint = await specification.getFingerprint(
+        createRequest("http://localhost/api", '{"a":1,"b":2}'),
+      );
+      const reorderedFingerprint = await specification.getFingerprint(
+        createRequest("http://localhost/api", '{"b":2,"a":1}'),
+      );
+
+      expect(fingerprint).toMatch(/^[\da-f]{64}$/);
+      expect(reorderedFingerprint).toBe(fingerprint);
+    });
+
+    it("returns null when the fingerprint is disabled", async () => {
+      const specification = createDefaultSpecification({
+        fingerprint: { body: "none" },
+      });
+
+      expect(
+        await specification.getFingerprint(
+          createRequest("http://localhost/api"),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("validation", () => {
+    it.each([
+      ["{method}:{path}", "{key}"],
+      ["{method}:{key}", "{path}"],
+      ["{path}:{key}", "{method}"],
+    ])(
+      "throws if the storage key template %j omits %s",
+      (storageKeyTemplate) => {
+        expect(() =>
+          createDefaultSpecification({ storageKeyTemplate }),
+        ).toThrowError(UnsafeImplementationError);
+      },
+    );
+
+    it("throws if the storage key template has an unknown placeholder", () => {
+      expect(() =>
+        createDefaultSpecification({
+          storageKeyTemplate: "{tenant}:{method}:{path}:{key}",
+        }),
+      ).toThrowError(UnsafeImplementationError);
+    });
+
+    it("throws if the opaque key length is invalid", () => {
+      expect(() =>
+        createDefaultSpecification({
+          keyFormat: { maxLength: 4, minLength: 8, type: "opaque" },
+        }),
+      ).toThrowError(UnsafeImplementationError);
+      expect(() =>
+        createDefaultSpecification({
+          keyFormat: { minLength: 0, type: "opaque" },
+        }),
+      ).toThrowError(UnsafeImplementationError);
+    });
+
+    it("throws if a fingerprint header name is invalid", () => {
+      expect(() =>
+        createDefaultSpecification({
+          fingerprint: { headers: ["X Tenant"] },
+        }),
+      ).toThrowError(UnsafeImplementationError);
+    });
+
+    it("throws if the key format is unknown", () => {
+      expect(() =>
+        createDefaultSpecification({
+          // @ts-expect-error Unknown key format
+          keyFormat: "uuid-v5",
+        }),
+      ).toThrowError(UnsafeImplementationError);
+    });
+  });
+});
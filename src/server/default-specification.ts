@@ -0,0 +1,221 @@
+import type { FingerprintGeneratorOptions } from "../fingerprint";
+import type { KeyValidator } from "../key-validator";
+import type { IdempotentRequestServerSpecification } from "./specification";
+
+import { UnsafeImplementationError } from "../error";
+import {
+  createBytesFingerprintGenerator,
+  createFormUrlEncodedFingerprintGenerator,
+  createJsonFingerprintGenerator,
+  createMultipartFingerprintGenerator,
+} from "../fingerprint";
+import {
+  createOpaqueTokenKeyValidator,
+  createUlidKeyValidator,
+  createUuidKeyValidator,
+} from "../key-validator";
+
+export interface DefaultSpecificationOptions {
+  /**
+   * Fingerprint options
+   *
+   * - `body`: How to read the request body. `"none"` disables the fingerprint.
+   * - `headers`: Names of request headers included in the fingerprint.
+   * - `query`: Query parameters included in the fingerprint.
+   *
+   * @default { body: "json" }
+   */
+  fingerprint?: FingerprintGeneratorOptions & {
+    body?: "bytes" | "form-urlencoded" | "json" | "multipart" | "none";
+  };
+
+  /**
+   * Format of the `Idempotency-Key` header
+   *
+   * - `"uuid"`: UUID of any version
+   * - `"uuid-v4"`: UUID version 4
+   * - `"uuid-v7"`: UUID version 7
+   * - `"ulid"`: ULID
+   * - `{ type: "opaque", ... }`: Opaque token with length and character-set limits
+   * - A function: Custom key validator
+   *
+   * @default "uuid"
+   */
+  keyFormat?:
+    | (Parameters<typeof createOpaqueTokenKeyValidator>[0] & { type: "opaque" })
+    | "ulid"
+    | "uuid"
+    | "uuid-v4"
+    | "uuid-v7"
+    | KeyValidator;
+
+  /**
+   * Template of the storage key
+   *
+   * The template must include all of `{method}`, `{path}` and `{key}`,
+   * so that the same key is never shared across operations.
+   * Each value is percent-encoded, so that a value cannot forge a separator of the template.
+   *
+   * @default "{method}:{path}:{key}"
+   */
+  storageKeyTemplate?: string;
+}
+
+const STORAGE_KEY_PLACEHOLDERS = ["{method}", "{path}", "{key}"] as const;
+
+/**
+ * Header names are tokens.
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9110#section-5.1}
+ */
+const HEADER_NAME_PATTERN = /^[\w!#$%&'*+.^`|~-]+$/;
+
+const createKeyValidator = (
+  keyFormat: NonNullable<DefaultSpecificationOptions["keyFormat"]>,
+): KeyValidator => {
+  if (typeof keyFormat === "function") {
+    return keyFormat;
+  }
+
+  if (typeof keyFormat === "object") {
+    const { maxLength = 255, minLength = 16 } = keyFormat;
+    if (
+      !Number.isInteger(minLength) ||
+      !Number.isInteger(maxLength) ||
+      minLength < 1 ||
+      minLength > maxLength
+    ) {
+      throw new UnsafeImplementationError(
+        `The opaque key format must have 1 <= minLength <= maxLength: minLength=${minLength}, maxLength=${maxLength}.`,
+      );
+    }
+    return createOpaqueTokenKeyValidator(keyFormat);
+  }
+
+  switch (keyFormat) {
+    case "ulid": {
+      return createUlidKeyValidator();
+    }
+    case "uuid": {
+      return createUuidKeyValidator();
+    }
+    case "uuid-v4": {
+      return createUuidKeyValidator({ version: 4 });
+    }
+    case "uuid-v7": {
+      return createUuidKeyValidator({ version: 7 });
+    }
+    default: {
+      throw new UnsafeImplementationError(
+        `Unknown key format: ${String(keyFormat satisfies never)}.`,
+      );
+    }
+  }
+};
+
+const createFingerprint = ({
+  body = "json",
+  ...options
+}: NonNullable<
+  DefaultSpecificationOptions["fingerprint"]
+>): IdempotentRequestServerSpecification["getFingerprint"] => {
+  for (const name of options.headers ?? []) {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      throw new UnsafeImplementationError(
+        `Invalid header name in the fingerprint options: ${JSON.stringify(name)}.`,
+      );
+    }
+  }
+
+  switch (body) {
+    case "bytes": {
+      return createBytesFingerprintGenerator(options);
+    }
+    case "form-urlencoded": {
+      return createFormUrlEncodedFingerprintGenerator(options);
+    }
+    case "json": {
+      return createJsonFingerprintGenerator(options);
+    }
+    case "multipart": {
+      return createMultipartFingerprintGenerator(options);
+    }
+    case "none": {
+      return () => null;
+    }
+    default: {
+      throw new UnsafeImplementationError(
+        `Unknown fingerprint body type: ${String(body satisfies never)}.`,
+      );
+    }
+  }
+};
+
+const validateStorageKeyTemplate = (template: string): void => {
+  for (const placeholder of STORAGE_KEY_PLACEHOLDERS) {
+    if (!template.includes(placeholder)) {
+      throw new UnsafeImplementationError(
+        `The storage key template must include ${placeholder}: ${JSON.stringify(template)}.`,
+      );
+    }
+  }
+
+  const unknownPlaceholder = /{(?!method}|path}|key})[^}]*}/.exec(template);
+  if (unknownPlaceholder != null) {
+    throw new UnsafeImplementationError(
+      `Unknown placeholder in the storage key template: ${unknownPlaceholder[0]}.`,
+    );
+  }
+};
+
+/**
+ * Create a server specification from declarative options.
+ *
+ * The configuration is validated when this function is called,
+ * so that a misconfiguration is found at startup rather than at request time.
+ *
+ * @example
+ * ```ts
+ * idempotentRequestUniversalMiddleware({
+ *   server: {
+ *     specification: createDefaultSpecification({
+ *       fingerprint: { body: "json", headers: ["X-Tenant-Id"] },
+ *       keyFormat: "uuid-v7",
+ *     }),
+ *   },
+ *   // ...
+ * });
+ * ```
+ *
+ * @param options - Specification options
+ * @returns Server specification
+ * @throws {UnsafeImplementationError}
+ * If the options are not safe, e.g. the storage key template omits the method, path or key.
+ */
+export const createDefaultSpecification = ({
+  fingerprint = {},
+  keyFormat = "uuid",
+  storageKeyTemplate = "{method}:{path}:{key}",
+}: DefaultSpecificationOptions = {}): IdempotentRequestServerSpecification => {
+  validateStorageKeyTemplate(storageKeyTemplate);
+
+  return {
+    getFingerprint: createFingerprint(fingerprint),
+
+    getStorageKey({ idempotencyKey, request }) {
+      const values = {
+        "{key}": idempotencyKey,
+        "{method}": request.method,
+        "{path}": new URL(request.url).pathname,
+      };
+
+      return storageKeyTemplate.replaceAll(
+        /{method}|{path}|{key}/g,
+        (placeholder) =>
+          encodeURIComponent(values[placeholder as keyof typeof values]),
+      );
+    },
+
+    satisfiesKeySpec: createKeyValidator(keyFormat),
+  };
+};
@@ -34,6 +34,7 @@ describe("createIdempotentRequestServer", () => {
       const identifier = await server.getRequestIdentifier({
         idempotencyKey: mockIdempotencyKey,
         request: mockRequest,
+        scope: null,
       });
 
       expect(identifier).toStrictEqual({
@@ -41,15 +42,74 @@ describe("createIdempotentRequestServer", () => {
         idempotencyKey: mockIdempotencyKey,
         requestMethod: "POST",
         requestPath: "/user",
+        requestQuery: "",
+        scope: null,
       });
     });
 
+    it("should return RequestIdentifier with the scope", async () => {
+      stubSpecification.getFingerprint.mockResolvedValue(null);
+
+      const identifier = await server.getRequestIdentifier({
+        idempotencyKey: mockIdempotencyKey,
+        request: mockRequest,
+        scope: "tenant-a",
+      });
+
+      expect(identifier.scope).toBe("tenant-a");
+    });
+
+    it("should return RequestIdentifier with the normalized path and query", async () => {
+      stubSpecification.getFingerprint.mockResolvedValue(null);
+
+      const normalizingServer = createIdempotentRequestServer(
+        stubSpecification,
+        { ignoredQueryParameters: ["utm_source"], trailingSlash: "ignore" },
+      );
+      const identifier = await normalizingServer.getRequestIdentifier({
+        idempotencyKey: mockIdempotencyKey,
+        request: new Request(
+          "http://localhost/%7euser/?utm_source=mail&b=2&a=1",
+          { method: "POST" },
+        ),
+        scope: null,
+      });
+
+      expect(identifier.requestPath).toBe("/~user");
+      expect(identifier.requestQuery).toBe("a=1&b=2");
+    });
+
+    it("should generate the fingerprint from the request with the normalized URL", async () => {
+      stubSpecification.getFingerprint.mockResolvedValue(null);
+
+      const normalizingServer = createIdempotentRequestServer(
+        stubSpecification,
+        { ignoredQueryParameters: ["utm_source"], trailingSlash: "ignore" },
+      );
+      await normalizingServer.getRequestIdentifier({
+        idempotencyKey: mockIdempotencyKey,
+        request: new Request("http://localhost/user/?utm_source=mail&a=1", {
+          body: "body",
+          method: "POST",
+        }),
+        scope: null,
+      });
+
+      const [request] = stubSpecification.getFingerprint.mock.calls[0] as [
+        Request,
+      ];
+      expect(request.url).toBe("http://localhost/user?a=1");
+      expect(request.method).toBe("POST");
+      expect(await request.text()).toBe("body");
+    });
+
     it("should return RequestIdentifier with null fingerprint when getFingerprint returns null", async () => {
       stubSpecification.getFingerprint.mockResolvedValue(null);
 
       const identifier = await server.getRequestIdentifier({
         idempotencyKey: mockIdempotencyKey,
         request: mockRequest,
+        scope: null,
       });
 
       expect(identifier).toStrictEqual({
@@ -57,6 +117,8 @@ describe("createIdempotentRequestServer", () => {
         idempotencyKey: mockIdempotencyKey,
         requestMethod: "POST",
         requestPath: "/user",
+        requestQuery: "",
+        scope: null,
       });
     });
   });
@@ -69,19 +131,57 @@ describe("createIdempotentRequestServer", () => {
       };
       stubSpecification.getStorageKey.mockResolvedValue("test-storage-key");
 
-      const storageKey = await server.getStorageKey(source);
+      const storageKey = await server.getStorageKey({ ...source, scope: null });
 
       expect(stubSpecification.getStorageKey).toHaveBeenCalledWith(source);
       expect(storageKey).toStrictEqual("test-storage-key");
     });
+
+    it("should prefix the storage key with the encoded scope", async () => {
+      stubSpecification.getStorageKey.mockResolvedValue("test-storage-key");
+
+      const storageKey = await server.getStorageKey({
+        idempotencyKey: mockIdempotencyKey,
+        request: mockRequest,
+        scope: "tenant:a",
+      });
+
+      expect(storageKey).toStrictEqual("tenant%3Aa:test-storage-key");
+    });
+
+    it("should pass the request with the normalized URL", async () => {
+      stubSpecification.getStorageKey.mockResolvedValue("test-storage-key");
+
+      const normalizingServer = createIdempotentRequestServer(
+        stubSpecification,
+        { trailingSlash: "ignore" },
+      );
+      await normalizingServer.getStorageKey({
+        idempotencyKey: mockIdempotencyKey,
+        request: new Request("http://localhost/user/", { method: "POST" }),
+        scope: null,
+      });
+
+      const [{ request }] = stubSpecification.getStorageKey.mock.calls[0] as [
+        { request: Request },
+      ];
+      expect(request.url).toBe("http://localhost/user");
+    });
   });
 
   describe("satisfiesKeySpec", () => {
-    it("should delegate to spec.satisfiesKeySpec", () => {
+    it("should delegate to spec.satisfiesKeySpec", async () => {
       stubSpecification.satisfiesKeySpec.mockReturnValue(true);
 
-      const result = server.satisfiesKeySpec(mockIdempotencyKey);
+      const result = await server.satisfiesKeySpec(
+        mockIdempotencyKey,
+        mockRequest,
+      );
 
+      expect(stubSpecification.satisfiesKeySpec).toHaveBeenCalledWith(
+        mockIdempotencyKey,
+        mockRequest,
+      );
       expect(result).toBe(true);
     });
   });
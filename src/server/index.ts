@@ -1,36 +1,88 @@
 import type { StorageKey } from "../brand";
 import type { RequestIdentifier } from "../identifier";
-import type { IdempotentRequestServerSpecification } from "./specification";
+import type { RequestNormalizationOptions } from "./normalize";
+import type {
+  IdempotentRequestServerSpecification,
+  KeySpecResult,
+} from "./specification";
 
 import { createIdempotencyFingerprint, createStorageKey } from "../brand";
+import { normalizePath, normalizeQuery } from "./normalize";
 
 export interface IdempotentRequestServer {
+  /**
+   * Get the identifier of the request.
+   *
+   * The path and the query string are normalized,
+   * so that equivalent URLs are identified as the same operation.
+   * The fingerprint is generated from the request with the normalized URL.
+   */
   getRequestIdentifier(source: {
     idempotencyKey: string;
     request: Request;
+    scope: string | null;
   }): Promise<RequestIdentifier>;
 
+  /**
+   * Get the storage key of the request.
+   *
+   * The storage key is generated from the request with the normalized URL.
+   * If the scope is not `null`, the storage key is prefixed with the scope,
+   * so that the same key used in different scopes never collides.
+   */
   getStorageKey(source: {
     idempotencyKey: string;
     request: Request;
+    scope: string | null;
   }): Promise<StorageKey>;
 
-  satisfiesKeySpec(idempotencyKey: string): boolean;
+  satisfiesKeySpec(
+    idempotencyKey: string,
+    request: Request,
+  ): Promise<KeySpecResult>;
 }
 
+/**
+ * Create a request whose URL has the normalized path and query string.
+ *
+ * The specification hooks receive this request,
+ * so that equivalent URLs have the same storage key and fingerprint.
+ */
+const normalizeRequest = (
+  request: Request,
+  normalization: RequestNormalizationOptions,
+): Request => {
+  const url = new URL(request.url);
+  url.pathname = normalizePath(url.pathname, normalization);
+  url.search = normalizeQuery(url.searchParams, normalization);
+
+  return url.href === request.url ? request : new Request(url, request);
+};
+
 export const createIdempotentRequestServer = (
   spec: IdempotentRequestServerSpecification,
+  normalization: RequestNormalizationOptions = {},
 ): IdempotentRequestServer => {
   return {
-    async getStorageKey(source) {
-      const storageKey = await spec.getStorageKey(source);
-      return createStorageKey(storageKey);
+    async getStorageKey({ idempotencyKey, request, scope }) {
+      const storageKey = await spec.getStorageKey({
+        idempotencyKey,
+        request: normalizeRequest(request, normalization),
+      });
+      return createStorageKey(
+        // The scope is encoded, so that it cannot contain the separator.
+        scope == null
+          ? storageKey
+          : `${encodeURIComponent(scope)}:${storageKey}`,
+      );
     },
 
-    async getRequestIdentifier({ idempotencyKey, request }) {
-      const requestPath = new URL(request.url).pathname;
+    async getRequestIdentifier({ idempotencyKey, request, scope }) {
+      const normalizedRequest = normalizeRequest(request, normalization);
+      const { pathname: requestPath, search } = new URL(normalizedRequest.url);
+      const requestQuery = search.slice(1);
 
-      const rawFingerprint = await spec.getFingerprint(request);
+      const rawFingerprint = await spec.getFingerprint(normalizedRequest);
       const fingerprint =
         rawFingerprint == null
           ? null
@@ -41,11 +93,13 @@ export const createIdempotentRequestServer = (
         idempotencyKey,
         requestMethod: request.method,
         requestPath,
+        requestQuery,
+        scope,
       };
     },
 
-    satisfiesKeySpec(idempotencyKey) {
-      return spec.satisfiesKeySpec(idempotencyKey);
+    async satisfiesKeySpec(idempotencyKey, request) {
+      return await spec.satisfiesKeySpec(idempotencyKey, request);
     },
   };
 };
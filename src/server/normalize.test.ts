@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+
+import { normalizePath, normalizeQuery } from "./normalize";
+
+describe("normalizePath", () => {
+  it("uppercases percent-encoded octets", () => {
+    expect(normalizePath("/orders/caf%c3%a9")).toBe("/orders/caf%C3%A9");
+  });
+
+  it("decodes percent-encoded unreserved characters", () => {
+    expect(normalizePath("/orders/%7euser%2D1")).toBe("/orders/~user-1");
+  });
+
+  it("keeps percent-encoded reserved characters", () => {
+    expect(normalizePath("/orders/a%2fb")).toBe("/orders/a%2Fb");
+  });
+
+  it("keeps percent-encoding as is when disabled", () => {
+    expect(
+      normalizePath("/orders/%7euser", { normalizePercentEncoding: false }),
+    ).toBe("/orders/%7euser");
+  });
+
+  it("keeps a trailing slash by default", () => {
+    expect(normalizePath("/orders/")).toBe("/orders/");
+  });
+
+  it("removes trailing slashes when ignored", () => {
+    expect(normalizePath("/orders//", { trailingSlash: "ignore" })).toBe(
+      "/orders",
+    );
+  });
+
+  it("keeps the root path when trailing slashes are ignored", () => {
+    expect(normalizePath("/", { trailingSlash: "ignore" })).toBe("/");
+  });
+});
+
+describe("normalizeQuery", () => {
+  it("returns an empty string when there are no parameters", () => {
+    expect(normalizeQuery(new URLSearchParams(""))).toBe("");
+  });
+
+  it("sorts parameters by name", () => {
+    expect(normalizeQuery(new URLSearchParams("b=2&a=1"))).toBe("a=1&b=2");
+  });
+
+  it("preserves the order of repeated parameters", () => {
+    expect(normalizeQuery(new URLSearchParams("tag=b&a=1&tag=a"))).toBe(
+      "a=1&tag=b&tag=a",
+    );
+  });
+
+  it("normalizes the encoding of values", () => {
+    expect(normalizeQuery(new URLSearchParams("a=%32&b=x%20y"))).toBe(
+      normalizeQuery(new URLSearchParams("a=2&b=x+y")),
+    );
+  });
+
+  it("removes ignored parameters", () => {
+    expect(
+      normalizeQuery(new URLSearchParams("utm_source=mail&dryRun=true"), {
+        ignoredQueryParameters: ["utm_source"],
+      }),
+    ).toBe("dryRun=true");
+  });
+});
@@ -0,0 +1,94 @@
+import { sortEntries } from "../fingerprint/canonical";
+
+export interface RequestNormalizationOptions {
+  /**
+   * Names of query parameters ignored when identifying the request,
+   * e.g. tracking parameters such as `utm_source`.
+   *
+   * @default []
+   */
+  ignoredQueryParameters?: readonly string[];
+
+  /**
+   * Normalize percent-encoding in the path.
+   *
+   * Hexadecimal digits are uppercased and unreserved characters are decoded,
+   * so that `/orders/%7euser` and `/orders/~user` are the same path.
+   *
+   * @see {@link https://www.rfc-editor.org/rfc/rfc3986#section-6.2.2 RFC 3986 Section 6.2.2}
+   *
+   * @default true
+   */
+  normalizePercentEncoding?: boolean;
+
+  /**
+   * Handling of a trailing slash in the path
+   *
+   * - `"ignore"`: Remove the trailing slash, so that `/orders/` and `/orders` are the same path.
+   * - `"strict"`: Keep the trailing slash as is.
+   *
+   * @default "strict"
+   */
+  trailingSlash?: "ignore" | "strict";
+}
+
+/**
+ * Unreserved characters, which are equivalent to their percent-encoded form.
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc3986#section-2.3}
+ */
+const UNRESERVED_PATTERN = /^[\w.~-]$/;
+
+const normalizePercentEncodedOctet = (octet: string): string => {
+  const character = String.fromCodePoint(Number.parseInt(octet.slice(1), 16));
+  return UNRESERVED_PATTERN.test(character) ? character : octet.toUpperCase();
+};
+
+/**
+ * Normalize the path of the request URL.
+ *
+ * @param pathname - Path of the request URL
+ * @param options - Normalization options
+ * @returns Normalized path
+ */
+export const normalizePath = (
+  pathname: string,
+  {
+    normalizePercentEncoding = true,
+    trailingSlash = "strict",
+  }: RequestNormalizationOptions = {},
+): string => {
+  let path = pathname;
+
+  if (normalizePercentEncoding) {
+    path = path.replaceAll(/%[\da-f]{2}/gi, normalizePercentEncodedOctet);
+  }
+
+  if (trailingSlash === "ignore" && path.length > 1) {
+    // The root path keeps its slash.
+    path = path.replace(/\/+$/, "") || "/";
+  }
+
+  return path;
+};
+
+/**
+ * Normalize the query string of the request URL.
+ *
+ * Parameters are sorted by name in a stable way and re-encoded,
+ * so that `?b=2&a=1` and `?a=1&b=%32` are the same query.
+ *
+ * @param searchParameters - Query parameters of the request URL
+ * @param options - Normalization options
+ * @returns Normalized query string without the leading `?`, or an empty string if there are no parameters
+ */
+export const normalizeQuery = (
+  searchParameters: URLSearchParams,
+  { ignoredQueryParameters = [] }: RequestNormalizationOptions = {},
+): string => {
+  const entries = [...searchParameters].filter(
+    ([name]) => !ignoredQueryParameters.includes(name),
+  );
+
+  return new URLSearchParams(sortEntries(entries)).toString();
+};
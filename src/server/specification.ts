@@ -14,6 +14,16 @@ interface GetStorageKeySource {
   request: Request;
 }
 
+/**
+ * Result of `satisfiesKeySpec`
+ *
+ * - `true`: The key satisfies the specifications.
+ * - `false`: The key does not satisfy the specifications.
+ * - `{ satisfied: false, reason }`: The key does not satisfy the specifications,
+ *   and `reason` (e.g. `"The key is too long."`) is included in the problem detail of the response.
+ */
+export type KeySpecResult = boolean | { reason: string; satisfied: false };
+
 /**
  * Specification - defines key validation and request digest generation.
  *
@@ -57,14 +67,24 @@ export interface IdempotentRequestServerSpecification {
   /**
    * Check if the idempotency key satisfies the server-defined specifications
    *
-   * If the key does not satisfy the specifications, the request will be processed without idempotency.
+   * If the key does not satisfy the specifications, the middleware replies 400 Bad Request
+   * with the `key_invalid` response type.
+   * Return `{ satisfied: false, reason }` to tell the client why the key is rejected.
    *
    * @see {@link https://datatracker.ietf.org/doc/html/draft-ietf-httpapi-idempotency-key-header-06#section-2.5.2 Responsibilities - Resource}
    *
+   * The request is given for keys bound to the caller, e.g. keys issued by `createSignedKeyIssuer`.
+   * Plain key validators can ignore it.
+   *
    * @param idempotencyKey
    * The `Idempotency-Key` header from the request
+   * @param request
+   * Web-standard request object
    * @returns
-   * Whether the key satisfies the server-defined specifications
+   * Whether the key satisfies the server-defined specifications, optionally with the reason of the rejection
    */
-  satisfiesKeySpec(idempotencyKey: string): boolean;
+  satisfiesKeySpec(
+    idempotencyKey: string,
+    request: Request,
+  ): MaybePromise<KeySpecResult>;
 }
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { UnsafeImplementationError } from "../error";
+import { createSignedKeyIssuer } from "./index";
+
+const SECRET = "0123456789abcdef0123456789abcdef";
+
+const createRequest = (userId: string) =>
+  new Request("http://localhost/orders", {
+    headers: { "X-User-Id": userId },
+    method: "POST",
+  });
+
+describe("createSignedKeyIssuer", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const issuer = createSignedKeyIssuer({
+    expiresIn: 60_000,
+    getPrincipal: (request) => request.headers.get("X-User-Id") ?? "anonymous",
+    secret: SECRET,
+  });
+
+  it("accepts a key issued to the same principal", async () => {
+    const key = await issuer.issue(createRequest("user-1"));
+
+    expect(await issuer.satisfiesKeySpec(key, createRequest("user-1"))).toBe(
+      true,
+    );
+  });
+
+  it("issues a different key each time", async () => {
+    const request = createRequest("user-1");
+
+    expect(await issuer.issue(request)).not.toBe(await issuer.issue(request));
+  });
+
+  it("rejects a key issued to another principal", async () => {
+    const key = await issuer.issue(createRequest("user-1"));
+
+    expect(await issuer.satisfiesKeySpec(key, createRequest("user-2"))).toBe(
+      false,
+    );
+  });
+
+  it("accepts a retried key until it expires", async () => {
+    const key = await issuer.issue(createRequest("user-1"));
+
+    vi.advanceTimersByTime(59_999);
+
+    expect(await issuer.satisfiesKeySpec(key, createRequest("user-1"))).toBe(
+      true,
+    );
+  });
+
+  it("rejects an expired key", async () => {
+    const key = await issuer.issue(createRequest("user-1"));
+
+    vi.advanceTimersByTime(60_000);
+
+    expect(await issuer.satisfiesKeySpec(key, createRequest("user-1"))).toBe(
+      false,
+    );
+  });
+
+  it("rejects a key with a tampered expiration", async () => {
+    const key = await issuer.issue(createRequest("user-1"));
+    const [nonce, expiresAt, signature] = key.split(".");
+    const tamperedKey = `${nonce}.${Number(expiresAt) + 3600}.${signature}`;
+
+    expect(
+      await issuer.satisfiesKeySpec(tamperedKey, createRequest("user-1")),
+    ).toBe(false);
+  });
+
+  it("rejects a key signed with another secret", async () => {
+    const otherIssuer = createSignedKeyIssuer({
+      getPrincipal: () => "user-1",
+      secret: "fedcba9876543210fedcba9876543210",
+    });
+    const key = await otherIssuer.issue(createRequest("user-1"));
+
+    expect(await issuer.satisfiesKeySpec(key, createRequest("user-1"))).toBe(
+      false,
+    );
+  });
+
+  it.each([
+    ["a UUID", "9b1deb4d-3b7d-4bad-9bdd-2b0d7b3dcb6d"],
+    ["an empty key", ""],
+    ["a key without a signature", `${"0".repeat(32)}.1704067260.`],
+  ])("rejects %s", async (_, key) => {
+    expect(await issuer.satisfiesKeySpec(key, createRequest("user-1"))).toBe(
+      false,
+    );
+  });
+
+  it("throws UnsafeImplementationError if the secret is too short", () => {
+    expect(() =>
+      createSignedKeyIssuer({ getPrincipal: () => "user", secret: "short" }),
+    ).toThrow(UnsafeImplementationError);
+  });
+
+  it("throws UnsafeImplementationError if the lifetime is not positive", () => {
+    expect(() =>
+      createSignedKeyIssuer({
+        expiresIn: 0,
+        getPrincipal: () => "user",
+        secret: SECRET,
+      }),
+    ).toThrow(UnsafeImplementationError);
+  });
+});
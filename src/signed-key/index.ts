@@ -0,0 +1,189 @@
+import type { MaybePromise } from "../utils/types";
+
+import { UnsafeImplementationError } from "../error";
+import { encodeHex } from "../utils/encoding";
+
+export interface SignedKeyOptions {
+  /**
+   * Lifetime of an issued key in milliseconds
+   *
+   * The key is verified before the stored request is looked up, also for a retried request.
+   * So a retry after the key has expired gets 400 Bad Request (`key_invalid`), not the stored response.
+   * This must cover the whole retry window, i.e. the time until the form is submitted plus the time clients keep retrying.
+   *
+   * @default 3_600_000 (1 hour)
+   */
+  expiresIn?: number;
+
+  /**
+   * Get the principal the key is bound to, e.g. a user ID or a session ID.
+   *
+   * The same principal must be returned when the key is issued and when it is verified,
+   * so that a key issued to one user is rejected for another user.
+   * Return a constant (e.g. `"anonymous"`) for unauthenticated requests.
+   */
+  getPrincipal: (request: Request) => MaybePromise<string>;
+
+  /**
+   * Secret of HMAC-SHA256
+   *
+   * It must be at least 32 bytes. Keep it out of the source code.
+   */
+  secret: string | Uint8Array;
+}
+
+/**
+ * Issuer of server-issued idempotency keys
+ */
+export interface SignedKeyIssuer {
+  /**
+   * Issue a key bound to the principal of the request.
+   *
+   * Call this when rendering a form, and embed the key as a hidden field.
+   *
+   * @param request - Request of the principal, e.g. the request rendering the form
+   * @returns Signed idempotency key
+   */
+  issue: (request: Request) => Promise<string>;
+
+  /**
+   * Verify a key. This can be used as `satisfiesKeySpec` of `IdempotentRequestServerSpecification`.
+   *
+   * Forged keys, expired keys and keys issued to another principal are rejected.
+   *
+   * @param idempotencyKey - Idempotency key sent by the client
+   * @param request - Request carrying the key
+   * @returns Whether the key is valid
+   */
+  satisfiesKeySpec: (
+    idempotencyKey: string,
+    request: Request,
+  ) => Promise<boolean>;
+}
+
+const MIN_SECRET_LENGTH = 32;
+
+const NONCE_LENGTH = 16;
+
+/**
+ * `<nonce>.<expiration in seconds since the epoch>.<signature>`
+ */
+const SIGNED_KEY_PATTERN =
+  /^(?<nonce>[\da-f]{32})\.(?<expiresAt>\d{1,15})\.(?<signature>[\da-f]{64})$/;
+
+const decodeHex = (hex: string): Uint8Array => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let index = 0; index < bytes.length; index++) {
+    bytes[index] = Number.parseInt(hex.slice(index * 2, index * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+/**
+ * The principal is placed last, so that it may contain the separator.
+ */
+const createSignedMessage = (
+  nonce: string,
+  expiresAt: string,
+  principal: string,
+): Uint8Array => new TextEncoder().encode(`${nonce}.${expiresAt}.${principal}`);
+
+/**
+ * Create an issuer of idempotency keys signed with HMAC-SHA256.
+ *
+ * Each key is bound to a principal and an expiration,
+ * so that the server does not need to trust keys generated by clients, e.g. browser forms.
+ * Only Web Crypto is used, so this works on any runtime.
+ *
+ * @example
+ * ```ts
+ * const signedKeys = createSignedKeyIssuer({
+ *   getPrincipal: (request) => getSession(request).userId,
+ *   secret: env.IDEMPOTENCY_KEY_SECRET,
+ * });
+ *
+ * // When rendering the form
+ * const idempotencyKey = await signedKeys.issue(request);
+ *
+ * // Server specification
+ * const specification = {
+ *   // ...
+ *   satisfiesKeySpec: signedKeys.satisfiesKeySpec,
+ * };
+ * ```
+ *
+ * @param options - Signed key options
+ * @returns Signed key issuer
+ * @throws {UnsafeImplementationError}
+ * If the secret is shorter than 32 bytes, or the lifetime is not a positive number.
+ */
+export const createSignedKeyIssuer = ({
+  expiresIn = 60 * 60 * 1000,
+  getPrincipal,
+  secret,
+}: SignedKeyOptions): SignedKeyIssuer => {
+  const secretBytes =
+    typeof secret === "string" ? new TextEncoder().encode(secret) : secret;
+  if (secretBytes.length < MIN_SECRET_LENGTH) {
+    throw new UnsafeImplementationError(
+      `The secret of signed keys must be at least ${MIN_SECRET_LENGTH} bytes.`,
+    );
+  }
+  if (!Number.isFinite(expiresIn) || expiresIn <= 0) {
+    throw new UnsafeImplementationError(
+      `The lifetime of signed keys must be a positive number: ${expiresIn}.`,
+    );
+  }
+
+  let cryptoKey: ReturnType<typeof crypto.subtle.importKey> | undefined;
+  const getCryptoKey = async () => {
+    cryptoKey ??= crypto.subtle.importKey(
+      "raw",
+      secretBytes,
+      { hash: "SHA-256", name: "HMAC" },
+      false,
+      ["sign", "verify"],
+    );
+    return await cryptoKey;
+  };
+
+  return {
+    issue: async (request) => {
+      const principal = await getPrincipal(request);
+      const nonce = encodeHex(
+        crypto.getRandomValues(new Uint8Array(NONCE_LENGTH)),
+      );
+      const expiresAt = String(Math.ceil((Date.now() + expiresIn) / 1000));
+
+      const signature = await crypto.subtle.sign(
+        "HMAC",
+        await getCryptoKey(),
+        createSignedMessage(nonce, expiresAt, principal),
+      );
+
+      return `${nonce}.${expiresAt}.${encodeHex(signature)}`;
+    },
+
+    satisfiesKeySpec: async (idempotencyKey, request) => {
+      const groups = SIGNED_KEY_PATTERN.exec(idempotencyKey)?.groups;
+      if (groups == null) {
+        return false;
+      }
+
+      const { expiresAt = "", nonce = "", signature = "" } = groups;
+      if (Number(expiresAt) * 1000 <= Date.now()) {
+        return false;
+      }
+
+      const principal = await getPrincipal(request);
+
+      // `verify` compares the signature in constant time.
+      return await crypto.subtle.verify(
+        "HMAC",
+        await getCryptoKey(),
+        decodeHex(signature),
+        createSignedMessage(nonce, expiresAt, principal),
+      );
+    },
+  };
+};
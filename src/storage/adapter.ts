@@ -7,17 +7,69 @@ import type {
 } from "../idempotent-request";
 import type { MaybePromise } from "../utils/types";
 
+/**
+ * Options of `IdempotentRequestStorageAdapter.listExpired`
+ */
+export interface ListExpiredOptions {
+  /**
+   * List requests whose `expiresAt` is at or before this time.
+   */
+  before: Date;
+
+  /**
+   * Cursor returned by the previous page, or `null` for the first page
+   */
+  cursor: string | null;
+
+  /**
+   * Maximum number of storage keys in a page
+   */
+  limit: number;
+}
+
+/**
+ * Page of `IdempotentRequestStorageAdapter.listExpired`
+ */
+export interface ListExpiredResult {
+  /**
+   * Cursor of the next page, or `null` if there are no more pages.
+   */
+  cursor: string | null;
+
+  /**
+   * Storage keys of the expired requests
+   */
+  storageKeys: StorageKey[];
+}
+
 /**
  * Adapter for storage of idempotent request records.
  *
  * You need to implement read/write process with specific persistence services.
  *
  * You can implement persistence policies like TTL at this layer.
+ * The expiration derived from `storage.retention` is given as `expiresAt` of each request,
+ * so that it can be applied natively by the storage.
  */
 export interface IdempotentRequestStorageAdapter {
+  /**
+   * Delete a stored request.
+   *
+   * This method is optional.
+   * It is required when `handlerErrorPolicy` is `"delete"`.
+   * It is also required by `sweepExpiredIdempotentRequests`.
+   *
+   * @param storageKey
+   * The storage key of the request.
+   */
+  delete?(storageKey: StorageKey): MaybePromise<void>;
+
   /**
    * Get a stored request.
    *
+   * The returned request is validated by the middleware, and an invalid request results in `IdempotencyKeyStorageError`.
+   * Dates serialized as strings (e.g. by `JSON.stringify`) are revived, so you can return parsed JSON as is.
+   *
    * @param storageKey
    * The storage key of the request.
    * @returns
@@ -25,6 +77,57 @@ export interface IdempotentRequestStorageAdapter {
    */
   get(storageKey: StorageKey): MaybePromise<IdempotentRequest | null>;
 
+  /**
+   * List the storage keys of expired requests, page by page.
+   *
+   * This method is optional.
+   * It is required by `sweepExpiredIdempotentRequests`.
+   * You don't need it if the storage expires requests natively (e.g. TTL of a key-value store).
+   *
+   * The listed requests are deleted before the next page is requested,
+   * so the cursor MUST NOT depend on them (e.g. use an ever-increasing ID, or the last storage key).
+   * Requests expired natively by the storage may also be listed.
+   *
+   * @param options
+   * The expiration, cursor and page size.
+   * @returns
+   * A page of storage keys, and the cursor of the next page.
+   */
+  listExpired?(options: ListExpiredOptions): MaybePromise<ListExpiredResult>;
+
+  /**
+   * Atomically acquire a lock for a request.
+   *
+   * This method is optional, but strongly recommended.
+   * Without it, the middleware acquires locks with `get` followed by `save` / `update`,
+   * so concurrent requests with the same key may both be processed.
+   *
+   * When implemented, the middleware uses this method instead of `save` and `update` to acquire locks.
+   *
+   * You MUST store `request` in a single atomic operation (e.g. insert-if-absent, compare-and-set),
+   * only if one of the following conditions is met:
+   * - No request is stored for `request.storageKey`.
+   * - The stored request has no response, and its `lockToken` is equal to `expectedLockToken`.
+   * - `expiredRequest` is given, and the `expiresAt` and `lockToken` of the stored request are equal to those of `expiredRequest`,
+   *   whether or not the stored request has a response.
+   *   This replaces the expired request, unless another request has replaced it first.
+   *
+   * @param request
+   * The locked request to store.
+   * @param expectedLockToken
+   * The `lockToken` of the stored request observed by the middleware.
+   * `null` matches a missing `lockToken`, e.g. of a lock acquired by an earlier version.
+   * @param expiredRequest
+   * The expired request observed by the middleware, if the middleware replaces it.
+   * @returns
+   * `true` if the request is stored, `false` if the conditions are not met.
+   */
+  lock?(
+    request: ProcessingIdempotentRequest,
+    expectedLockToken: string | null,
+    expiredRequest?: IdempotentRequest,
+  ): MaybePromise<boolean>;
+
   /**
    * Save a new unprocessed request.
    *
@@ -33,13 +136,36 @@ export interface IdempotentRequestStorageAdapter {
    */
   save(request: UnProcessedIdempotentRequest): MaybePromise<void>;
 
+  /**
+   * Atomically unlock a request.
+   *
+   * The unlocked request has either the stored response,
+   * or no response when the lock is released without storing the response.
+   *
+   * This method is optional, but strongly recommended.
+   * Without it, the middleware checks the lock with `get` followed by `update`,
+   * so a stale lock holder may overwrite the response stored by a newer lock holder.
+   *
+   * You MUST store `request` in a single atomic operation (e.g. compare-and-set),
+   * only if the `lockToken` of the stored request is equal to `lockToken`.
+   *
+   * @param request
+   * The unlocked request to store.
+   * @param lockToken
+   * The `lockToken` of the lock held by the middleware.
+   * @returns
+   * `true` if the request is stored, `false` if the lock is no longer held.
+   */
+  unlock?(
+    request: ProcessedIdempotentRequest | UnProcessedIdempotentRequest,
+    lockToken: string,
+  ): MaybePromise<boolean>;
+
   /**
    * Update a request.
    *
    * @param request
    * The request to update.
    */
-  update(
-    request: ProcessedIdempotentRequest | ProcessingIdempotentRequest,
-  ): MaybePromise<void>;
+  update(request: IdempotentRequest): MaybePromise<void>;
 }
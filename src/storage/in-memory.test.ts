@@ -0,0 +1,294 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type {
+  ProcessingIdempotentRequest,
+  UnProcessedIdempotentRequest,
+} from "../idempotent-request";
+
+import { createStorageKey } from "../brand";
+import { UnsafeImplementationError } from "../error";
+import { runStorageAdapterConformanceTests } from "../testing";
+import { createInMemoryStorageAdapter } from "./in-memory";
+
+const createRequest = (key: string): UnProcessedIdempotentRequest => ({
+  createdAt: new Date(),
+  expiresAt: null,
+  fingerprint: null,
+  idempotencyKey: key,
+  lockedAt: null,
+  lockToken: null,
+  requestMethod: "POST",
+  requestPath: "/api/test",
+  requestQuery: "",
+  response: null,
+  scope: null,
+  storageKey: createStorageKey(key),
+});
+
+const lockRequest = (
+  request: UnProcessedIdempotentRequest,
+  lockToken: string,
+): ProcessingIdempotentRequest => ({
+  ...request,
+  lockedAt: new Date(),
+  lockToken,
+});
+
+describe("createInMemoryStorageAdapter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("stores and retrieves a request", async () => {
+    const adapter = createInMemoryStorageAdapter();
+    const request = createRequest("key1");
+
+    await adapter.save(request);
+
+    expect(await adapter.get(request.storageKey)).toStrictEqual(request);
+  });
+
+  it("returns null for an unknown request", async () => {
+    const adapter = createInMemoryStorageAdapter();
+
+    expect(await adapter.get(createStorageKey("unknown"))).toBeNull();
+  });
+
+  it("deletes a request", async () => {
+    const adapter = createInMemoryStorageAdapter();
+    const request = createRequest("key1");
+
+    await adapter.save(request);
+    await adapter.delete?.(request.storageKey);
+
+    expect(await adapter.get(request.storageKey)).toBeNull();
+  });
+
+  describe("ttl", () => {
+    it("expires a request after the ttl", async () => {
+      const adapter = createInMemoryStorageAdapter({ ttl: 1000 });
+      const request = createRequest("key1");
+
+      await adapter.save(request);
+      vi.advanceTimersByTime(999);
+      expect(await adapter.get(request.storageKey)).toStrictEqual(request);
+
+      vi.advanceTimersByTime(1);
+      expect(await adapter.get(request.storageKey)).toBeNull();
+    });
+
+    it("does not extend the ttl when the request is updated", async () => {
+      const adapter = createInMemoryStorageAdapter({ ttl: 1000 });
+      const request = createRequest("key1");
+
+      await adapter.save(request);
+      vi.advanceTimersByTime(500);
+      await adapter.update(lockRequest(request, "token1"));
+      vi.advanceTimersByTime(500);
+
+      expect(await adapter.get(request.storageKey)).toBeNull();
+    });
+  });
+
+  describe("maxEntries", () => {
+    it("evicts the least recently used request", async () => {
+      const adapter = createInMemoryStorageAdapter({ maxEntries: 2 });
+      const first = createRequest("key1");
+      const second = createRequest("key2");
+      const third = createRequest("key3");
+
+      await adapter.save(first);
+      await adapter.save(second);
+      // Mark the first request as recently used
+      await adapter.get(first.storageKey);
+      await adapter.save(third);
+
+      expect(await adapter.get(first.storageKey)).toStrictEqual(first);
+      expect(await adapter.get(second.storageKey)).toBeNull();
+      expect(await adapter.get(third.storageKey)).toStrictEqual(third);
+    });
+
+    it("evicts an unlocked request before a locked request", async () => {
+      const adapter = createInMemoryStorageAdapter({ maxEntries: 2 });
+      const locked = lockRequest(createRequest("key1"), "token1");
+      const unlocked = createRequest("key2");
+
+      await adapter.lock?.(locked, null);
+      await adapter.save(unlocked);
+      await adapter.save(createRequest("key3"));
+
+      expect(await adapter.get(locked.storageKey)).toStrictEqual(locked);
+      expect(await adapter.get(unlocked.storageKey)).toBeNull();
+    });
+
+    it("evicts the least recently used locked request if all other requests are locked", async () => {
+      const adapter = createInMemoryStorageAdapter({ maxEntries: 2 });
+      const first = lockRequest(createRequest("key1"), "token1");
+      const second = lockRequest(createRequest("key2"), "token2");
+      const third = createRequest("key3");
+
+      await adapter.lock?.(first, null);
+      await adapter.lock?.(second, null);
+      await adapter.save(third);
+
+      expect(await adapter.get(first.storageKey)).toBeNull();
+      expect(await adapter.get(second.storageKey)).toStrictEqual(second);
+      expect(await adapter.get(third.storageKey)).toStrictEqual(third);
+    });
+
+    it("removes expired requests before evicting live requests", async () => {
+      const adapter = createInMemoryStorageAdapter({
+        maxEntries: 2,
+        ttl: 1000,
+      });
+      const expired = createRequest("key1");
+      const live = createRequest("key2");
+
+      await adapter.save(expired);
+      vi.advanceTimersByTime(500);
+      await adapter.save(live);
+      vi.advanceTimersByTime(500);
+      await adapter.save(createRequest("key3"));
+
+      expect(await adapter.get(live.storageKey)).toStrictEqual(live);
+    });
+  });
+
+  describe("listExpired", () => {
+    it("lists expired requests page by page, sorted by storage key", async () => {
+      const adapter = createInMemoryStorageAdapter({ ttl: 1000 });
+      for (const key of ["key3", "key1", "key2"]) {
+        await adapter.save(createRequest(key));
+      }
+      vi.advanceTimersByTime(1000);
+
+      const before = new Date();
+      const firstPage = await adapter.listExpired?.({
+        before,
+        cursor: null,
+        limit: 2,
+      });
+      expect(firstPage).toStrictEqual({
+        cursor: "key2",
+        storageKeys: [createStorageKey("key1"), createStorageKey("key2")],
+      });
+
+      await adapter.delete?.(createStorageKey("key1"));
+      await adapter.delete?.(createStorageKey("key2"));
+
+      const secondPage = await adapter.listExpired?.({
+        before,
+        cursor: "key2",
+        limit: 2,
+      });
+      expect(secondPage).toStrictEqual({
+        cursor: null,
+        storageKeys: [createStorageKey("key3")],
+      });
+    });
+
+    it("lists requests expired at their expiresAt", async () => {
+      const adapter = createInMemoryStorageAdapter();
+      await adapter.save({
+        ...createRequest("key1"),
+        expiresAt: new Date("2024-01-01T00:00:01.000Z"),
+      });
+      await adapter.save(createRequest("key2"));
+
+      expect(
+        await adapter.listExpired?.({
+          before: new Date("2024-01-01T00:00:01.000Z"),
+          cursor: null,
+          limit: 10,
+        }),
+      ).toStrictEqual({
+        cursor: null,
+        storageKeys: [createStorageKey("key1")],
+      });
+    });
+  });
+
+  describe("lock", () => {
+    it("locks a new request", async () => {
+      const adapter = createInMemoryStorageAdapter();
+      const request = lockRequest(createRequest("key1"), "token1");
+
+      expect(await adapter.lock?.(request, null)).toBe(true);
+      expect(await adapter.get(request.storageKey)).toStrictEqual(request);
+    });
+
+    it("does not lock a request locked by another token", async () => {
+      const adapter = createInMemoryStorageAdapter();
+      const request = createRequest("key1");
+
+      await adapter.lock?.(lockRequest(request, "token1"), null);
+
+      expect(await adapter.lock?.(lockRequest(request, "token2"), null)).toBe(
+        false,
+      );
+    });
+
+    it("takes over a lock with the expected token", async () => {
+      const adapter = createInMemoryStorageAdapter();
+      const request = createRequest("key1");
+
+      await adapter.lock?.(lockRequest(request, "token1"), null);
+
+      expect(
+        await adapter.lock?.(lockRequest(request, "token2"), "token1"),
+      ).toBe(true);
+    });
+
+    it("does not lock a request with a stored response", async () => {
+      const adapter = createInMemoryStorageAdapter();
+      const request = createRequest("key1");
+
+      await adapter.save({
+        ...request,
+        response: { body: "", headers: {}, status: 200, statusText: "OK" },
+      } as unknown as UnProcessedIdempotentRequest);
+
+      expect(await adapter.lock?.(lockRequest(request, "token1"), null)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("unlock", () => {
+    it("unlocks a request with the held token", async () => {
+      const adapter = createInMemoryStorageAdapter();
+      const request = createRequest("key1");
+
+      await adapter.lock?.(lockRequest(request, "token1"), null);
+
+      expect(await adapter.unlock?.(request, "token1")).toBe(true);
+      expect(await adapter.get(request.storageKey)).toStrictEqual(request);
+    });
+
+    it("does not unlock a request locked by another token", async () => {
+      const adapter = createInMemoryStorageAdapter();
+      const request = createRequest("key1");
+
+      await adapter.lock?.(lockRequest(request, "token2"), null);
+
+      expect(await adapter.unlock?.(request, "token1")).toBe(false);
+    });
+  });
+
+  it.each([
+    ["maxEntries is zero", { maxEntries: 0 }],
+    ["maxEntries is not an integer", { maxEntries: 1.5 }],
+    ["ttl is zero", { ttl: 0 }],
+  ])("throws UnsafeImplementationError if %s", (_, options) => {
+    expect(() => createInMemoryStorageAdapter(options)).toThrow(
+      UnsafeImplementationError,
+    );
+  });
+});
+
+runStorageAdapterConformanceTests(() => createInMemoryStorageAdapter());
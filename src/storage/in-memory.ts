@@ -0,0 +1,215 @@
+import type { StorageKey } from "../brand";
+import type { IdempotentRequest } from "../idempotent-request";
+import type { IdempotentRequestStorageAdapter } from "./adapter";
+
+import { UnsafeImplementationError } from "../error";
+import { isSameExpiredRequest } from "../retention";
+
+export interface InMemoryStorageAdapterOptions {
+  /**
+   * Maximum number of stored requests
+   *
+   * When exceeded, the least recently used request is evicted.
+   * Locked requests are evicted only if all stored requests are locked.
+   *
+   * @default 10_000
+   */
+  maxEntries?: number;
+
+  /**
+   * Time to live of a stored request in milliseconds, counted from when it is first stored
+   *
+   * If the request has an earlier `expiresAt` (see `storage.retention`), it expires at `expiresAt`.
+   *
+   * @default 86_400_000 (24 hours)
+   */
+  ttl?: number;
+}
+
+type Entry = {
+  expiresAt: number;
+  request: IdempotentRequest;
+};
+
+/**
+ * Create an in-memory storage adapter.
+ *
+ * Stored requests expire after `ttl` or at their `expiresAt`, whichever comes first, and the least recently used request is evicted
+ * when the number of stored requests exceeds `maxEntries`.
+ * Locks are acquired atomically within one process.
+ *
+ * The stored requests are not shared between processes and are lost on restart,
+ * so this is suitable for single-instance deployments and local development.
+ *
+ * @example
+ * ```ts
+ * idempotentRequestUniversalMiddleware({
+ *   storage: {
+ *     adapter: createInMemoryStorageAdapter({ maxEntries: 1000, ttl: 60 * 60 * 1000 }),
+ *   },
+ *   // ...
+ * });
+ * ```
+ *
+ * @param options - In-memory storage options
+ * @returns Storage adapter
+ * @throws {UnsafeImplementationError}
+ * If `maxEntries` is not a positive integer, or `ttl` is not a positive number.
+ */
+export const createInMemoryStorageAdapter = ({
+  maxEntries = 10_000,
+  ttl = 24 * 60 * 60 * 1000,
+}: InMemoryStorageAdapterOptions = {}): IdempotentRequestStorageAdapter => {
+  if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+    throw new UnsafeImplementationError(
+      `The maximum number of entries must be a positive integer: ${maxEntries}.`,
+    );
+  }
+  if (!Number.isFinite(ttl) || ttl <= 0) {
+    throw new UnsafeImplementationError(
+      `The time to live must be a positive number: ${ttl}.`,
+    );
+  }
+
+  // A `Map` iterates in insertion order, so the first entry is the least recently used.
+  const entries = new Map<StorageKey, Entry>();
+
+  /**
+   * Get a live entry, and mark it as the most recently used.
+   */
+  const touch = (storageKey: StorageKey): Entry | null => {
+    const entry = entries.get(storageKey);
+    if (entry == null) {
+      return null;
+    }
+
+    entries.delete(storageKey);
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    entries.set(storageKey, entry);
+    return entry;
+  };
+
+  /**
+   * Evict requests exceeding the capacity, except the request just written.
+   */
+  const evict = (writtenKey: StorageKey): void => {
+    if (entries.size <= maxEntries) {
+      return;
+    }
+
+    // Expired requests are removed lazily, and all at once when the capacity is exceeded.
+    const now = Date.now();
+    for (const [storageKey, entry] of entries) {
+      if (entry.expiresAt <= now) {
+        entries.delete(storageKey);
+      }
+    }
+
+    while (entries.size > maxEntries) {
+      let victim: StorageKey | undefined;
+      let lockedVictim: StorageKey | undefined;
+      for (const [storageKey, entry] of entries) {
+        if (storageKey === writtenKey) {
+          continue;
+        }
+        if (entry.request.lockToken == null) {
+          victim = storageKey;
+          break;
+        }
+        lockedVictim ??= storageKey;
+      }
+
+      // All other stored requests are locked. Keep the memory bounded anyway.
+      victim ??= lockedVictim;
+      if (victim == null) {
+        return;
+      }
+      entries.delete(victim);
+    }
+  };
+
+  const write = (request: IdempotentRequest): void => {
+    const entry = touch(request.storageKey);
+    entries.set(request.storageKey, {
+      expiresAt: Math.min(
+        entry?.expiresAt ?? Date.now() + ttl,
+        request.expiresAt?.getTime() ?? Infinity,
+      ),
+      request,
+    });
+
+    if (entry == null) {
+      evict(request.storageKey);
+    }
+  };
+
+  return {
+    delete(storageKey) {
+      entries.delete(storageKey);
+    },
+
+    get(storageKey) {
+      return touch(storageKey)?.request ?? null;
+    },
+
+    listExpired({ before, cursor, limit }) {
+      // Sorted by storage key, so that the cursor is stable while listed requests are deleted.
+      const storageKeys = [...entries]
+        .filter(
+          ([storageKey, entry]) =>
+            entry.expiresAt <= before.getTime() &&
+            (cursor == null || storageKey > cursor),
+        )
+        .map(([storageKey]) => storageKey)
+        .sort()
+        .slice(0, limit + 1);
+
+      const hasMore = storageKeys.length > limit;
+      const page = storageKeys.slice(0, limit);
+      return {
+        cursor: hasMore ? (page.at(-1) ?? null) : null,
+        storageKeys: page,
+      };
+    },
+
+    lock(request, expectedLockToken, expiredRequest) {
+      // An expired entry is removed by `touch`, so the expired request is absent here,
+      // unless another request has replaced it with a live request.
+      const storedRequest = touch(request.storageKey)?.request;
+      if (
+        storedRequest != null &&
+        !(
+          expiredRequest != null &&
+          isSameExpiredRequest(storedRequest, expiredRequest)
+        ) &&
+        (storedRequest.response != null ||
+          storedRequest.lockToken !== expectedLockToken)
+      ) {
+        return false;
+      }
+
+      write(request);
+      return true;
+    },
+
+    save(request) {
+      write(request);
+    },
+
+    unlock(request, lockToken) {
+      if (touch(request.storageKey)?.request.lockToken !== lockToken) {
+        return false;
+      }
+
+      write(request);
+      return true;
+    },
+
+    update(request) {
+      write(request);
+    },
+  };
+};
@@ -1,6 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import type {
+  IdempotentRequest,
   ProcessedIdempotentRequest,
   ProcessingIdempotentRequest,
   UnProcessedIdempotentRequest,
@@ -8,9 +9,12 @@ import type {
 import type { SerializedResponse } from "../serializer";
 
 import { createStorageKey } from "../brand";
-import { IdempotencyKeyStorageError } from "../error";
+import { IdempotencyKeyStorageError, IdempotencyLockLostError } from "../error";
+import { createInMemoryStorageAdapter } from "./in-memory";
 import { createIdempotentRequestStorage } from "./index";
 
+const lockToken = "a4c1e1c5-8d5a-4f8e-9f43-6a1f0b6c2d7e";
+
 const fakeAdapter = {
   get: vi.fn(),
   save: vi.fn(),
@@ -22,6 +26,7 @@ describe("createIdempotentRequestStorage", () => {
     vi.resetAllMocks();
     vi.useFakeTimers();
     vi.setSystemTime(new Date("2024-01-01T00:01:00.000Z")); // Consistent lockedAt
+    vi.spyOn(crypto, "randomUUID").mockReturnValue(lockToken); // Consistent lockToken
   });
 
   afterEach(() => {
@@ -31,12 +36,17 @@ describe("createIdempotentRequestStorage", () => {
   const storage = createIdempotentRequestStorage(fakeAdapter);
 
   const baseRequest: UnProcessedIdempotentRequest = {
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    expiresAt: null,
     fingerprint: null,
     idempotencyKey: "cd4e21a0-f506-4ca3-a825-522a28bf7165",
     lockedAt: null,
+    lockToken: null,
     requestMethod: "POST",
     requestPath: "/test",
+    requestQuery: "",
     response: null,
+    scope: null,
     storageKey: createStorageKey("test-key"),
   };
 
@@ -47,6 +57,7 @@ describe("createIdempotentRequestStorage", () => {
       expect(lockedRequest).toStrictEqual({
         ...baseRequest,
         lockedAt: new Date("2024-01-01T00:01:00.000Z"),
+        lockToken,
       });
     });
 
@@ -100,10 +111,73 @@ describe("createIdempotentRequestStorage", () => {
 
       expect(result).toStrictEqual({
         created: true,
+        expiredRequest: null,
         request: expectedNewRequest,
       });
     });
 
+    it("should return the stored request if it is not expired yet", async () => {
+      const existingRequest: ProcessedIdempotentRequest = {
+        ...baseRequest,
+        expiresAt: new Date("2024-01-01T00:01:00.001Z"),
+        response,
+      };
+      fakeAdapter.get.mockResolvedValue(existingRequest);
+
+      const result = await storage.findOrCreate(baseRequest);
+
+      expect(result).toStrictEqual({
+        created: false,
+        request: existingRequest,
+      });
+    });
+
+    it("should return the expired request without replacing it", async () => {
+      const expiredRequest: ProcessedIdempotentRequest = {
+        ...baseRequest,
+        expiresAt: new Date("2024-01-01T00:01:00.000Z"),
+        response,
+      };
+      fakeAdapter.get.mockResolvedValue(expiredRequest);
+
+      const result = await storage.findOrCreate(baseRequest);
+
+      expect(result).toStrictEqual({
+        created: true,
+        expiredRequest,
+        request: baseRequest,
+      });
+      expect(fakeAdapter.save).not.toHaveBeenCalled();
+      expect(fakeAdapter.update).not.toHaveBeenCalled();
+    });
+
+    it("should revive the dates of a stored request serialized as JSON", async () => {
+      const existingRequest: ProcessedIdempotentRequest = {
+        ...baseRequest,
+        response,
+      };
+      const json = JSON.stringify(existingRequest);
+      fakeAdapter.get.mockResolvedValue(JSON.parse(json));
+
+      const result = await storage.findOrCreate(baseRequest);
+
+      expect(result).toStrictEqual({
+        created: false,
+        request: existingRequest,
+      });
+    });
+
+    it("should throw IdempotencyKeyStorageError if the stored request is invalid", async () => {
+      fakeAdapter.get.mockResolvedValue({
+        ...baseRequest,
+        lockToken,
+      });
+
+      await expect(storage.findOrCreate(baseRequest)).rejects.toThrowError(
+        IdempotencyKeyStorageError,
+      );
+    });
+
     it("should throw IdempotencyKeyStorageError if adapter.get fails", async () => {
       const adapterError = new Error("Adapter get failed");
       fakeAdapter.get.mockRejectedValue(adapterError);
@@ -129,10 +203,102 @@ describe("createIdempotentRequestStorage", () => {
     });
   });
 
+  describe("refreshLock", () => {
+    const processingRequest: ProcessingIdempotentRequest = {
+      ...baseRequest,
+      lockedAt: new Date("2024-01-01T00:00:00.000Z"),
+      lockToken,
+      response: null,
+    };
+
+    it("should refresh lockedAt if the lock is still held", async () => {
+      fakeAdapter.get.mockResolvedValue(processingRequest);
+
+      const refreshedRequest = await storage.refreshLock(processingRequest);
+
+      expect(refreshedRequest).toStrictEqual({
+        ...processingRequest,
+        lockedAt: new Date("2024-01-01T00:01:00.000Z"),
+      });
+      expect(fakeAdapter.update).toHaveBeenCalledExactlyOnceWith(
+        refreshedRequest,
+      );
+    });
+
+    it("should throw IdempotencyLockLostError if the lock token does not match", async () => {
+      fakeAdapter.get.mockResolvedValue({
+        ...processingRequest,
+        lockToken: "another-lock-token",
+      });
+
+      await expect(storage.refreshLock(processingRequest)).rejects.toThrowError(
+        new IdempotencyLockLostError(
+          `The lock of the idempotent request is no longer held: ${processingRequest.storageKey}.`,
+        ),
+      );
+      expect(fakeAdapter.update).not.toHaveBeenCalled();
+    });
+
+    it("should throw IdempotencyKeyStorageError if adapter.get fails", async () => {
+      const adapterError = new Error("Adapter get failed");
+      fakeAdapter.get.mockRejectedValue(adapterError);
+
+      await expect(storage.refreshLock(processingRequest)).rejects.toThrowError(
+        new IdempotencyKeyStorageError(
+          `Failed to refresh the lock of the stored idempotent request: ${processingRequest.storageKey}`,
+          { cause: adapterError },
+        ),
+      );
+    });
+  });
+
+  describe("releaseLock", () => {
+    const processingRequest: ProcessingIdempotentRequest = {
+      ...baseRequest,
+      lockedAt: new Date("2024-01-01T00:01:00.000Z"),
+      lockToken,
+      response: null,
+    };
+
+    it("should reset the request to unprocessed", async () => {
+      fakeAdapter.get.mockResolvedValue(processingRequest);
+
+      await storage.releaseLock(processingRequest);
+
+      expect(fakeAdapter.update).toHaveBeenCalledExactlyOnceWith(baseRequest);
+    });
+
+    it("should throw IdempotencyLockLostError if the lock token does not match", async () => {
+      fakeAdapter.get.mockResolvedValue({
+        ...processingRequest,
+        lockToken: "another-lock-token",
+      });
+
+      await expect(storage.releaseLock(processingRequest)).rejects.toThrowError(
+        IdempotencyLockLostError,
+      );
+      expect(fakeAdapter.update).not.toHaveBeenCalled();
+    });
+
+    it("should throw IdempotencyKeyStorageError if adapter.update fails", async () => {
+      const adapterError = new Error("Adapter update failed");
+      fakeAdapter.get.mockResolvedValue(processingRequest);
+      fakeAdapter.update.mockRejectedValue(adapterError);
+
+      await expect(storage.releaseLock(processingRequest)).rejects.toThrowError(
+        new IdempotencyKeyStorageError(
+          `Failed to release the lock of an idempotent request: ${processingRequest.storageKey}. You should unlock the request manually.`,
+          { cause: adapterError },
+        ),
+      );
+    });
+  });
+
   describe("setResponseAndUnlock", () => {
     const processingRequest: ProcessingIdempotentRequest = {
       ...baseRequest,
       lockedAt: new Date("2024-01-01T00:01:00.000Z"),
+      lockToken,
       response: null,
     };
 
@@ -144,17 +310,33 @@ describe("createIdempotentRequestStorage", () => {
     };
 
     it("should set the response, unlock the request, and update", async () => {
+      fakeAdapter.get.mockResolvedValue(processingRequest);
+
       await storage.setResponseAndUnlock(processingRequest, response);
 
       expect(fakeAdapter.update).toHaveBeenCalledExactlyOnceWith({
         ...processingRequest,
         lockedAt: null,
+        lockToken: null,
         response,
       });
     });
 
+    it("should throw IdempotencyLockLostError if the lock token does not match", async () => {
+      fakeAdapter.get.mockResolvedValue({
+        ...processingRequest,
+        lockToken: "another-lock-token",
+      });
+
+      await expect(
+        storage.setResponseAndUnlock(processingRequest, response),
+      ).rejects.toThrowError(IdempotencyLockLostError);
+      expect(fakeAdapter.update).not.toHaveBeenCalled();
+    });
+
     it("should throw IdempotencyKeyStorageError if adapter.update fails", async () => {
       const adapterError = new Error("Adapter update failed");
+      fakeAdapter.get.mockResolvedValue(processingRequest);
       fakeAdapter.update.mockRejectedValue(adapterError);
 
       await expect(
@@ -169,3 +351,362 @@ describe("createIdempotentRequestStorage", () => {
     });
   });
 });
+
+describe("createIdempotentRequestStorage with atomic lock", () => {
+  const fakeAtomicAdapter = {
+    get: vi.fn(),
+    lock: vi.fn(),
+    save: vi.fn(),
+    unlock: vi.fn(),
+    update: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:01:00.000Z")); // Consistent lockedAt
+    vi.spyOn(crypto, "randomUUID").mockReturnValue(lockToken); // Consistent lockToken
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const storage = createIdempotentRequestStorage(fakeAtomicAdapter);
+
+  const baseRequest: UnProcessedIdempotentRequest = {
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    expiresAt: null,
+    fingerprint: null,
+    idempotencyKey: "cd4e21a0-f506-4ca3-a825-522a28bf7165",
+    lockedAt: null,
+    lockToken: null,
+    requestMethod: "POST",
+    requestPath: "/test",
+    requestQuery: "",
+    response: null,
+    scope: null,
+    storageKey: createStorageKey("test-key"),
+  };
+
+  describe("acquireLock", () => {
+    it("should acquire a lock with adapter.lock", async () => {
+      fakeAtomicAdapter.lock.mockResolvedValue(true);
+
+      const lockedRequest = await storage.acquireLock(baseRequest);
+
+      const expectedRequest: ProcessingIdempotentRequest = {
+        ...baseRequest,
+        lockedAt: new Date("2024-01-01T00:01:00.000Z"),
+        lockToken,
+      };
+      expect(lockedRequest).toStrictEqual(expectedRequest);
+      expect(fakeAtomicAdapter.lock).toHaveBeenCalledExactlyOnceWith(
+        expectedRequest,
+        null,
+      );
+      expect(fakeAtomicAdapter.update).not.toHaveBeenCalled();
+    });
+
+    it("should take over an abandoned lock with adapter.lock", async () => {
+      fakeAtomicAdapter.lock.mockResolvedValue(true);
+      const abandonedRequest: ProcessingIdempotentRequest = {
+        ...baseRequest,
+        lockedAt: new Date("2024-01-01T00:00:00.000Z"),
+        lockToken: "abandoned-lock-token",
+      };
+
+      const lockedRequest = await storage.acquireLock(abandonedRequest);
+
+      const expectedRequest: ProcessingIdempotentRequest = {
+        ...baseRequest,
+        lockedAt: new Date("2024-01-01T00:01:00.000Z"),
+        lockToken,
+      };
+      expect(lockedRequest).toStrictEqual(expectedRequest);
+      expect(fakeAtomicAdapter.lock).toHaveBeenCalledExactlyOnceWith(
+        expectedRequest,
+        "abandoned-lock-token",
+      );
+    });
+
+    it("should take over a lock acquired before lock tokens were introduced with adapter.lock", async () => {
+      fakeAtomicAdapter.lock.mockResolvedValue(true);
+      const legacyRequest: ProcessingIdempotentRequest = {
+        ...baseRequest,
+        lockedAt: new Date("2024-01-01T00:00:00.000Z"),
+        lockToken: "legacy:2024-01-01T00:00:00.000Z",
+      };
+
+      await storage.acquireLock(legacyRequest);
+
+      // The legacy lock is stored without a lock token.
+      expect(fakeAtomicAdapter.lock).toHaveBeenCalledExactlyOnceWith(
+        {
+          ...baseRequest,
+          lockedAt: new Date("2024-01-01T00:01:00.000Z"),
+          lockToken,
+        },
+        null,
+      );
+    });
+
+    it("should replace an expired request with adapter.lock", async () => {
+      fakeAtomicAdapter.lock.mockResolvedValue(true);
+      const expiredRequest: UnProcessedIdempotentRequest = {
+        ...baseRequest,
+        expiresAt: new Date("2024-01-01T00:00:30.000Z"),
+      };
+
+      const lockedRequest = await storage.acquireLock(
+        baseRequest,
+        expiredRequest,
+      );
+
+      const expectedRequest: ProcessingIdempotentRequest = {
+        ...baseRequest,
+        lockedAt: new Date("2024-01-01T00:01:00.000Z"),
+        lockToken,
+      };
+      expect(lockedRequest).toStrictEqual(expectedRequest);
+      expect(fakeAtomicAdapter.lock).toHaveBeenCalledExactlyOnceWith(
+        expectedRequest,
+        null,
+        expiredRequest,
+      );
+    });
+
+    it("should return null if adapter.lock fails to acquire a lock", async () => {
+      fakeAtomicAdapter.lock.mockResolvedValue(false);
+
+      const lockedRequest = await storage.acquireLock(baseRequest);
+
+      expect(lockedRequest).toBeNull();
+      expect(fakeAtomicAdapter.update).not.toHaveBeenCalled();
+    });
+
+    it("should throw IdempotencyKeyStorageError if adapter.lock throws", async () => {
+      const adapterError = new Error("Adapter lock failed");
+      fakeAtomicAdapter.lock.mockRejectedValue(adapterError);
+
+      await expect(storage.acquireLock(baseRequest)).rejects.toThrowError(
+        new IdempotencyKeyStorageError(
+          `Failed to acquire a lock for the stored idempotent request: ${baseRequest.storageKey}`,
+          { cause: adapterError },
+        ),
+      );
+    });
+  });
+
+  describe("findOrCreate", () => {
+    it("should not save a new request, because it is inserted by acquireLock", async () => {
+      fakeAtomicAdapter.get.mockResolvedValue(null);
+
+      const result = await storage.findOrCreate(baseRequest);
+
+      expect(result).toStrictEqual({
+        created: true,
+        expiredRequest: null,
+        request: baseRequest,
+      });
+      expect(fakeAtomicAdapter.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("refreshLock", () => {
+    it("should refresh lockedAt with adapter.lock", async () => {
+      fakeAtomicAdapter.lock.mockResolvedValue(true);
+      const processingRequest: ProcessingIdempotentRequest = {
+        ...baseRequest,
+        lockedAt: new Date("2024-01-01T00:00:00.000Z"),
+        lockToken,
+      };
+
+      const refreshedRequest = await storage.refreshLock(processingRequest);
+
+      expect(refreshedRequest).toStrictEqual({
+        ...processingRequest,
+        lockedAt: new Date("2024-01-01T00:01:00.000Z"),
+      });
+      expect(fakeAtomicAdapter.lock).toHaveBeenCalledExactlyOnceWith(
+        refreshedRequest,
+        lockToken,
+      );
+    });
+  });
+
+  describe("releaseLock", () => {
+    it("should reset the request to unprocessed with adapter.unlock", async () => {
+      fakeAtomicAdapter.unlock.mockResolvedValue(true);
+
+      await storage.releaseLock({
+        ...baseRequest,
+        lockedAt: new Date("2024-01-01T00:01:00.000Z"),
+        lockToken,
+      });
+
+      expect(fakeAtomicAdapter.unlock).toHaveBeenCalledExactlyOnceWith(
+        baseRequest,
+        lockToken,
+      );
+    });
+  });
+
+  describe("setResponseAndUnlock", () => {
+    const processingRequest: ProcessingIdempotentRequest = {
+      ...baseRequest,
+      lockedAt: new Date("2024-01-01T00:01:00.000Z"),
+      lockToken,
+      response: null,
+    };
+
+    const response: SerializedResponse = {
+      body: '{"id": 123}',
+      headers: { location: "/new-resource" },
+      status: 201,
+      statusText: "Created",
+    };
+
+    it("should unlock the request with adapter.unlock", async () => {
+      fakeAtomicAdapter.unlock.mockResolvedValue(true);
+
+      await storage.setResponseAndUnlock(processingRequest, response);
+
+      expect(fakeAtomicAdapter.unlock).toHaveBeenCalledExactlyOnceWith(
+        {
+          ...processingRequest,
+          lockedAt: null,
+          lockToken: null,
+          response,
+        },
+        lockToken,
+      );
+      expect(fakeAtomicAdapter.update).not.toHaveBeenCalled();
+    });
+
+    it("should throw IdempotencyLockLostError if adapter.unlock fails to unlock", async () => {
+      fakeAtomicAdapter.unlock.mockResolvedValue(false);
+
+      await expect(
+        storage.setResponseAndUnlock(processingRequest, response),
+      ).rejects.toThrowError(
+        new IdempotencyLockLostError(
+          `The lock of the idempotent request is no longer held: ${processingRequest.storageKey}. The response is not stored.`,
+        ),
+      );
+    });
+  });
+});
+
+/**
+ * Adapter keeping expired requests, like a storage without native expiration.
+ * `lock` is implemented as documented, and it is atomic as it is synchronous.
+ */
+const createMapAdapter = () => {
+  const requests = new Map<string, IdempotentRequest>();
+  return {
+    get: (storageKey: string) => requests.get(storageKey) ?? null,
+    lock: (
+      request: ProcessingIdempotentRequest,
+      expectedLockToken: string | null,
+      expiredRequest?: IdempotentRequest,
+    ) => {
+      const storedRequest = requests.get(request.storageKey);
+      const canLock =
+        storedRequest == null ||
+        (expiredRequest != null &&
+          storedRequest.lockToken === expiredRequest.lockToken &&
+          storedRequest.expiresAt?.getTime() ===
+            expiredRequest.expiresAt?.getTime()) ||
+        (storedRequest.response == null &&
+          storedRequest.lockToken === expectedLockToken);
+      if (canLock) {
+        requests.set(request.storageKey, request);
+      }
+      return canLock;
+    },
+    save: (request: IdempotentRequest) => {
+      requests.set(request.storageKey, request);
+    },
+    update: (request: IdempotentRequest) => {
+      requests.set(request.storageKey, request);
+    },
+  };
+};
+
+describe("createIdempotentRequestStorage with an expired request", () => {
+  const expiredRequest: ProcessedIdempotentRequest = {
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    expiresAt: new Date("2024-01-01T00:00:30.000Z"),
+    fingerprint: null,
+    idempotencyKey: "cd4e21a0-f506-4ca3-a825-522a28bf7165",
+    lockedAt: null,
+    lockToken: null,
+    requestMethod: "POST",
+    requestPath: "/test",
+    requestQuery: "",
+    response: {
+      body: '{"id": 123}',
+      headers: {},
+      status: 201,
+      statusText: "Created",
+    },
+    scope: null,
+    storageKey: createStorageKey("test-key"),
+  };
+
+  const newRequest = {
+    ...expiredRequest,
+    createdAt: new Date("2024-01-01T00:01:00.000Z"),
+    expiresAt: new Date("2024-01-01T00:02:00.000Z"),
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:01:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each([
+    ["with adapter.lock", createMapAdapter],
+    [
+      "without adapter.lock",
+      () => {
+        const { get, save, update } = createMapAdapter();
+        return { get, save, update };
+      },
+    ],
+    ["with the in-memory adapter", () => createInMemoryStorageAdapter()],
+  ])(
+    "should let only one of interleaved requests replace it %s",
+    async (_, createAdapter) => {
+      const adapter = createAdapter();
+      await adapter.save({ ...expiredRequest, response: null });
+      await adapter.update(expiredRequest);
+      const storage = createIdempotentRequestStorage(adapter);
+
+      // Both requests find the expired request before either of them locks.
+      const resultA = await storage.findOrCreate(newRequest);
+      const resultB = await storage.findOrCreate(newRequest);
+      if (!resultA.created || !resultB.created) {
+        throw new Error("The expired request must be treated as absent.");
+      }
+
+      const lockedA = await storage.acquireLock(
+        resultA.request,
+        resultA.expiredRequest,
+      );
+      const lockedB = await storage.acquireLock(
+        resultB.request,
+        resultB.expiredRequest,
+      );
+
+      expect(lockedA).not.toBeNull();
+      expect(lockedB).toBeNull();
+      expect(await adapter.get(newRequest.storageKey)).toStrictEqual(lockedA);
+    },
+  );
+});
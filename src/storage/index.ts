@@ -1,3 +1,4 @@
+import type { StorageKey } from "../brand";
 import type {
   IdempotentRequest,
   IdempotentRequestBase,
@@ -8,24 +9,55 @@ import type {
 import type { SerializedResponse } from "../serializer";
 import type { IdempotentRequestStorageAdapter } from "./adapter";
 
-import { IdempotencyKeyStorageError } from "../error";
+import { IdempotencyKeyStorageError, IdempotencyLockLostError } from "../error";
+import { isRequestExpired, isSameExpiredRequest } from "../retention";
+import { parseStoredRequest, toStoredLockToken } from "./record";
 
 interface IdempotentRequestStorage {
   /**
    * Acquire a lock for the request.
    *
+   * If the adapter implements `lock`, the lock is acquired atomically.
+   *
+   * Passing a locked request means taking over its lock.
+   * Make sure that the lock is abandoned before taking it over.
+   *
+   * Passing `expiredRequest` replaces the expired request,
+   * only if no other request has replaced it since it is found.
+   *
    * @param request
    * The request to acquire a lock for.
+   * @param expiredRequest
+   * The expired request returned by `findOrCreate`, if any.
    * @returns
-   * The locked request.
+   * The locked request, or `null` if another request has acquired the lock first.
    */
   acquireLock(
-    request: UnProcessedIdempotentRequest,
-  ): Promise<ProcessingIdempotentRequest>;
+    request: ProcessingIdempotentRequest | UnProcessedIdempotentRequest,
+    expiredRequest?: IdempotentRequest | null,
+  ): Promise<ProcessingIdempotentRequest | null>;
+
+  /**
+   * Delete the locked request.
+   *
+   * The adapter must implement `delete`.
+   *
+   * @param request
+   * The locked request to delete.
+   * @throws {IdempotencyLockLostError}
+   * If the lock is no longer held, e.g. another request has taken over the lock.
+   */
+  deleteLocked(request: ProcessingIdempotentRequest): Promise<void>;
 
   /**
    * Find or create a request.
    *
+   * An expired stored request is treated as absent, and returned as `expiredRequest`.
+   * It is not replaced here. Pass it to `acquireLock`, which replaces it atomically.
+   *
+   * If the adapter implements `lock`, the created request is not saved here.
+   * It will be inserted atomically by `acquireLock`.
+   *
    * @param request
    * The request to find or create.
    * @returns
@@ -37,19 +69,52 @@ interface IdempotentRequestStorage {
       }
     | {
         created: true;
+        expiredRequest: IdempotentRequest | null;
         request: UnProcessedIdempotentRequest;
       }
   >;
 
+  /**
+   * Refresh the lock of the request.
+   *
+   * This extends the lock lease of a request that is still being processed.
+   *
+   * @param request
+   * The locked request to refresh.
+   * @returns
+   * The refreshed request.
+   * @throws {IdempotencyLockLostError}
+   * If the lock is no longer held, e.g. another request has taken over the lock.
+   */
+  refreshLock(
+    request: ProcessingIdempotentRequest,
+  ): Promise<ProcessingIdempotentRequest>;
+
+  /**
+   * Release the lock of the request without storing the response.
+   *
+   * The request is reset to unprocessed, so that a retried request processes it again.
+   *
+   * @param request
+   * The locked request to release.
+   * @throws {IdempotencyLockLostError}
+   * If the lock is no longer held, e.g. another request has taken over the lock.
+   */
+  releaseLock(request: ProcessingIdempotentRequest): Promise<void>;
+
   /**
    * Set the response and unlock the request.
    *
    * This method internally clones the response, So you don't need to clone in caller side.
    *
+   * If the adapter implements `unlock`, the lock is checked and released atomically.
+   *
    * @param request
    * The request to set the response and unlock.
    * @param response
    * The response to set.
+   * @throws {IdempotencyLockLostError}
+   * If the lock is no longer held, e.g. another request has taken over the lock.
    */
   setResponseAndUnlock(
     request: ProcessingIdempotentRequest,
@@ -60,13 +125,72 @@ interface IdempotentRequestStorage {
 export const createIdempotentRequestStorage = (
   adapter: IdempotentRequestStorageAdapter,
 ): IdempotentRequestStorage => {
+  /**
+   * Get the stored request, validated and with dates revived.
+   *
+   * @throws {IdempotencyKeyStorageError}
+   * If the stored request is invalid.
+   */
+  const getStoredRequest = async (
+    storageKey: StorageKey,
+  ): Promise<IdempotentRequest | null> => {
+    const storedRequest: unknown = await adapter.get(storageKey);
+    return storedRequest == null
+      ? null
+      : parseStoredRequest(storedRequest, storageKey);
+  };
+
+  /**
+   * Update the request only if the lock is still held.
+   *
+   * This is not atomic, so use adapter methods like `lock` and `unlock` if available.
+   */
+  const updateIfLocked = async (
+    request: IdempotentRequest,
+    lockToken: string,
+  ): Promise<boolean> => {
+    const storedRequest = await getStoredRequest(request.storageKey);
+    if (storedRequest?.lockToken !== lockToken) {
+      return false;
+    }
+
+    await adapter.update(request);
+    return true;
+  };
+
   return {
-    acquireLock: async (request) => {
+    acquireLock: async (request, expiredRequest) => {
       try {
         const lockedRequest = {
           ...request,
           lockedAt: new Date(),
+          lockToken: crypto.randomUUID(),
         } satisfies ProcessingIdempotentRequest;
+
+        if (adapter.lock) {
+          const locked = await adapter.lock(
+            lockedRequest,
+            toStoredLockToken(request.lockToken),
+            ...(expiredRequest == null ? [] : [expiredRequest]),
+          );
+          return locked ? lockedRequest : null;
+        }
+
+        if (expiredRequest != null) {
+          // This is not atomic, but it does not overwrite a request which has replaced the expired request.
+          const storedRequest = await getStoredRequest(request.storageKey);
+          if (storedRequest == null) {
+            await adapter.save({
+              ...request,
+              lockedAt: null,
+              lockToken: null,
+              response: null,
+            });
+          } else if (!isSameExpiredRequest(storedRequest, expiredRequest)) {
+            return null;
+          }
+        }
+
         await adapter.update(lockedRequest);
 
         return lockedRequest;
@@ -80,10 +204,38 @@ export const createIdempotentRequestStorage = (
       }
     },
 
+    deleteLocked: async (request) => {
+      let isDeleted: boolean;
+      try {
+        if (!adapter.delete) {
+          throw new Error("The storage adapter does not implement `delete`.");
+        }
+
+        const storedRequest = await getStoredRequest(request.storageKey);
+        isDeleted = storedRequest?.lockToken === request.lockToken;
+        if (isDeleted) {
+          await adapter.delete(request.storageKey);
+        }
+      } catch (error) {
+        throw new IdempotencyKeyStorageError(
+          `Failed to delete the stored idempotent request: ${request.storageKey}. You should delete the request manually.`,
+          {
+            cause: error,
+          },
+        );
+      }
+
+      if (!isDeleted) {
+        throw new IdempotencyLockLostError(
+          `The lock of the idempotent request is no longer held: ${request.storageKey}.`,
+        );
+      }
+    },
+
     findOrCreate: async (request) => {
       try {
-        const storedRequest = await adapter.get(request.storageKey);
-        if (storedRequest) {
+        const storedRequest = await getStoredRequest(request.storageKey);
+        if (storedRequest && !isRequestExpired(storedRequest)) {
           return {
             created: false,
             request: storedRequest,
@@ -93,12 +245,19 @@ export const createIdempotentRequestStorage = (
         const nonLockedRequest = {
           ...request,
           lockedAt: null,
+          lockToken: null,
           response: null,
         } satisfies UnProcessedIdempotentRequest;
-        await adapter.save(nonLockedRequest);
+
+        // The expired request is treated as absent, even if the adapter still returns it.
+        // It is replaced by `acquireLock`, so that concurrent requests do not replace it twice.
+        if (storedRequest == null && !adapter.lock) {
+          await adapter.save(nonLockedRequest);
+        }
 
         return {
           created: true,
+          expiredRequest: storedRequest,
           request: nonLockedRequest,
         };
       } catch (error) {
@@ -111,15 +270,77 @@ export const createIdempotentRequestStorage = (
       }
     },
 
+    refreshLock: async (request) => {
+      const refreshedRequest = {
+        ...request,
+        lockedAt: new Date(),
+      } satisfies ProcessingIdempotentRequest;
+
+      let isRefreshed: boolean;
+      try {
+        isRefreshed = adapter.lock
+          ? await adapter.lock(refreshedRequest, request.lockToken)
+          : await updateIfLocked(refreshedRequest, request.lockToken);
+      } catch (error) {
+        throw new IdempotencyKeyStorageError(
+          `Failed to refresh the lock of the stored idempotent request: ${request.storageKey}`,
+          {
+            cause: error,
+          },
+        );
+      }
+
+      if (!isRefreshed) {
+        throw new IdempotencyLockLostError(
+          `The lock of the idempotent request is no longer held: ${request.storageKey}.`,
+        );
+      }
+
+      return refreshedRequest;
+    },
+
+    releaseLock: async (request) => {
+      let isUnlocked: boolean;
+      try {
+        const unlockedRequest = {
+          ...request,
+          lockedAt: null,
+          lockToken: null,
+          response: null,
+        } satisfies UnProcessedIdempotentRequest;
+
+        isUnlocked = adapter.unlock
+          ? await adapter.unlock(unlockedRequest, request.lockToken)
+          : await updateIfLocked(unlockedRequest, request.lockToken);
+      } catch (error) {
+        throw new IdempotencyKeyStorageError(
+          `Failed to release the lock of an idempotent request: ${request.storageKey}. You should unlock the request manually.`,
+          {
+            cause: error,
+          },
+        );
+      }
+
+      if (!isUnlocked) {
+        throw new IdempotencyLockLostError(
+          `The lock of the idempotent request is no longer held: ${request.storageKey}.`,
+        );
+      }
+    },
+
     setResponseAndUnlock: async (request, response) => {
+      let isUnlocked: boolean;
       try {
         const unlockedRequest = {
           ...request,
           lockedAt: null,
+          lockToken: null,
           response,
         } satisfies ProcessedIdempotentRequest;
 
-        await adapter.update(unlockedRequest);
+        isUnlocked = adapter.unlock
+          ? await adapter.unlock(unlockedRequest, request.lockToken)
+          : await updateIfLocked(unlockedRequest, request.lockToken);
       } catch (error) {
         throw new IdempotencyKeyStorageError(
           `Failed to save the response of an idempotent request: ${request.storageKey}. You should unlock the request manually.`,
@@ -128,6 +349,12 @@ export const createIdempotentRequestStorage = (
           },
         );
       }
+
+      if (!isUnlocked) {
+        throw new IdempotencyLockLostError(
+          `The lock of the idempotent request is no longer held: ${request.storageKey}. The response is not stored.`,
+        );
+      }
     },
   };
 };
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+
+import type {
+  ProcessedIdempotentRequest,
+  ProcessingIdempotentRequest,
+  UnProcessedIdempotentRequest,
+} from "../idempotent-request";
+
+import { createIdempotencyFingerprint, createStorageKey } from "../brand";
+import { IdempotencyKeyStorageError } from "../error";
+import { parseStoredRequest, toStoredLockToken } from "./record";
+
+const storageKey = createStorageKey("test-key");
+
+const unprocessedRequest: UnProcessedIdempotentRequest = {
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  expiresAt: new Date("2024-01-02T00:00:00.000Z"),
+  fingerprint: createIdempotencyFingerprint("fingerprint"),
+  idempotencyKey: "cd4e21a0-f506-4ca3-a825-522a28bf7165",
+  lockedAt: null,
+  lockToken: null,
+  requestMethod: "POST",
+  requestPath: "/test",
+  requestQuery: "",
+  response: null,
+  scope: null,
+  storageKey,
+};
+
+const processingRequest: ProcessingIdempotentRequest = {
+  ...unprocessedRequest,
+  lockedAt: new Date("2024-01-01T00:00:01.000Z"),
+  lockToken: "a4c1e1c5-8d5a-4f8e-9f43-6a1f0b6c2d7e",
+};
+
+const processedRequest: ProcessedIdempotentRequest = {
+  ...unprocessedRequest,
+  response: {
+    body: '{"id": 123}',
+    bodyEncoding: "text",
+    headers: { location: "/new-resource" },
+    status: 201,
+    statusText: "Created",
+  },
+};
+
+/**
+ * Serialize and parse as JSON, like key-value stores do.
+ */
+const toJson = (value: unknown): unknown => {
+  const json = JSON.stringify(value);
+  return JSON.parse(json) as unknown;
+};
+
+const expectInvalid = (value: unknown, reason: string) => {
+  expect(() => parseStoredRequest(value, storageKey)).toThrowError(
+    new IdempotencyKeyStorageError(
+      `The stored idempotent request is invalid: ${storageKey}. ${reason}`,
+    ),
+  );
+};
+
+describe("parseStoredRequest", () => {
+  it.each([
+    ["unprocessed", unprocessedRequest],
+    ["processing", processingRequest],
+    ["processed", processedRequest],
+  ])("accepts a %s request", (_, request) => {
+    expect(parseStoredRequest(request, storageKey)).toStrictEqual(request);
+  });
+
+  it.each([
+    ["unprocessed", unprocessedRequest],
+    ["processing", processingRequest],
+    ["processed", processedRequest],
+  ])("revives the dates of a %s request serialized as JSON", (_, request) => {
+    expect(parseStoredRequest(toJson(request), storageKey)).toStrictEqual(
+      request,
+    );
+  });
+
+  it("accepts a request stored before requestQuery, scope, createdAt and expiresAt were introduced", () => {
+    const legacyRequest = Object.fromEntries(
+      Object.entries(unprocessedRequest).filter(
+        ([field]) =>
+          ![
+            "createdAt",
+            "expiresAt",
+            "lockToken",
+            "requestQuery",
+            "scope",
+          ].includes(field),
+      ),
+    );
+
+    expect(parseStoredRequest(legacyRequest, storageKey)).toStrictEqual({
+      ...unprocessedRequest,
+      createdAt: new Date(0),
+      expiresAt: null,
+      requestQuery: "",
+      scope: null,
+    });
+  });
+
+  it.each([
+    ["missing", undefined],
+    ["null", null],
+  ])(
+    "keeps a lock with a %s lockToken, acquired before lock tokens were introduced, locked",
+    (_, legacyLockToken) => {
+      const legacyRequest = toJson({
+        ...processingRequest,
+        lockToken: legacyLockToken,
+      });
+
+      expect(parseStoredRequest(legacyRequest, storageKey)).toStrictEqual({
+        ...processingRequest,
+        lockToken: "legacy:2024-01-01T00:00:01.000Z",
+      });
+    },
+  );
+
+  it("stores a synthetic lock token as null", () => {
+    expect(toStoredLockToken("legacy:2024-01-01T00:00:01.000Z")).toBeNull();
+    expect(toStoredLockToken(processingRequest.lockToken)).toBe(
+      processingRequest.lockToken,
+    );
+    expect(toStoredLockToken(null)).toBeNull();
+  });
+
+  it("rejects a value that is not an object", () => {
+    expectInvalid("request", "It must be an object.");
+  });
+
+  it("rejects a request stored with another storage key", () => {
+    expectInvalid(
+      { ...unprocessedRequest, storageKey: "other-key" },
+      "It is stored with another storage key: other-key.",
+    );
+  });
+
+  it("rejects a request with a missing field", () => {
+    expectInvalid(
+      { ...unprocessedRequest, requestMethod: undefined },
+      "requestMethod must be a string.",
+    );
+  });
+
+  it("rejects an invalid date", () => {
+    expectInvalid(
+      { ...processingRequest, lockedAt: "yesterday" },
+      "lockedAt must be a Date or a date string.",
+    );
+  });
+
+  it("rejects a lock token without lockedAt", () => {
+    expectInvalid(
+      { ...processingRequest, lockedAt: null },
+      "lockedAt must be set for a request with lockToken.",
+    );
+  });
+
+  it("rejects a locked request with a response", () => {
+    expectInvalid(
+      { ...processingRequest, response: processedRequest.response },
+      "A request with a response must not be locked.",
+    );
+  });
+
+  it("rejects an invalid response", () => {
+    expectInvalid(
+      {
+        ...processedRequest,
+        response: { ...processedRequest.response, status: "201" },
+      },
+      "response.status must be an integer.",
+    );
+  });
+});
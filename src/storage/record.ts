@@ -0,0 +1,183 @@
+import type { StorageKey } from "../brand";
+import type { IdempotentRequest } from "../idempotent-request";
+import type {
+  SerializedResponse,
+  SerializedResponseBodyEncoding,
+} from "../serializer";
+
+import { createIdempotencyFingerprint } from "../brand";
+import { IdempotencyKeyStorageError } from "../error";
+
+type StoredRecord = Record<string, unknown>;
+
+const BODY_ENCODINGS = new Set<unknown>([
+  "base64",
+  "text",
+] satisfies SerializedResponseBodyEncoding[]);
+
+const LEGACY_LOCK_TOKEN_PREFIX = "legacy:";
+
+/**
+ * Get the lock token as stored by the adapter.
+ *
+ * A lock acquired before lock tokens were introduced has a synthetic lock token, which is stored as `null`.
+ *
+ * @param lockToken - Lock token of a parsed request
+ * @returns Lock token to compare with the stored request
+ */
+export const toStoredLockToken = (lockToken: string | null): string | null => {
+  return lockToken?.startsWith(LEGACY_LOCK_TOKEN_PREFIX) === true
+    ? null
+    : lockToken;
+};
+
+const isRecord = (value: unknown): value is StoredRecord =>
+  typeof value === "object" && value != null && !Array.isArray(value);
+
+/**
+ * Parse a request returned by `adapter.get`.
+ *
+ * Dates serialized as strings (e.g. JSON of a key-value store) are revived,
+ * and the invariants of each state (unprocessed, processing and processed) are checked.
+ *
+ * Fields added after the first release are optional, so that requests stored by earlier versions are accepted:
+ * - A missing `requestQuery` is `""`.
+ * - A missing `scope` or `expiresAt` is `null`.
+ * - A missing `createdAt` is the Unix epoch, as the time is unknown.
+ * - A lock without `lockToken` gets a synthetic lock token derived from `lockedAt` (see {@link toStoredLockToken}),
+ *   so that the lock lease still applies to it.
+ *
+ * @param value - Value returned by `adapter.get`
+ * @param storageKey - Storage key passed to `adapter.get`
+ * @returns The stored request
+ * @throws {IdempotencyKeyStorageError}
+ * If the value is not a valid stored request, or its storage key does not match.
+ */
+export const parseStoredRequest = (
+  value: unknown,
+  storageKey: StorageKey,
+): IdempotentRequest => {
+  const invalid = (reason: string): never => {
+    throw new IdempotencyKeyStorageError(
+      `The stored idempotent request is invalid: ${storageKey}. ${reason}`,
+    );
+  };
+
+  const readString = (record: StoredRecord, field: string): string => {
+    const fieldValue = record[field];
+    return typeof fieldValue === "string"
+      ? fieldValue
+      : invalid(`${field} must be a string.`);
+  };
+
+  const readNullableString = (
+    record: StoredRecord,
+    field: string,
+  ): string | null => {
+    const fieldValue = record[field];
+    return fieldValue == null ? null : readString(record, field);
+  };
+
+  const readDate = (record: StoredRecord, field: string): Date => {
+    const fieldValue = record[field];
+    if (fieldValue instanceof Date && !Number.isNaN(fieldValue.getTime())) {
+      return fieldValue;
+    }
+
+    // Revive a date serialized as a string, e.g. in JSON.
+    if (typeof fieldValue === "string") {
+      const date = new Date(fieldValue);
+      if (!Number.isNaN(date.getTime())) {
+        return date;
+      }
+    }
+
+    return invalid(`${field} must be a Date or a date string.`);
+  };
+
+  const readNullableDate = (
+    record: StoredRecord,
+    field: string,
+  ): Date | null => {
+    return record[field] == null ? null : readDate(record, field);
+  };
+
+  const readResponse = (record: StoredRecord): SerializedResponse | null => {
+    const response = record["response"];
+    if (response == null) {
+      return null;
+    }
+    if (!isRecord(response)) {
+      return invalid("response must be an object.");
+    }
+
+    const { bodyEncoding, headers, status } = response;
+    if (bodyEncoding !== undefined && !BODY_ENCODINGS.has(bodyEncoding)) {
+      return invalid('response.bodyEncoding must be "base64" or "text".');
+    }
+    if (
+      !isRecord(headers) ||
+      !Object.values(headers).every((header) => typeof header === "string")
+    ) {
+      return invalid("response.headers must be a record of strings.");
+    }
+    if (typeof status !== "number" || !Number.isInteger(status)) {
+      return invalid("response.status must be an integer.");
+    }
+
+    return {
+      body: readString(response, "body"),
+      ...(bodyEncoding === undefined
+        ? {}
+        : { bodyEncoding: bodyEncoding as SerializedResponseBodyEncoding }),
+      headers: headers as Record<string, string>,
+      status,
+      statusText: readString(response, "statusText"),
+    };
+  };
+
+  if (!isRecord(value)) {
+    return invalid("It must be an object.");
+  }
+
+  const storedKey = readString(value, "storageKey");
+  if (storedKey !== storageKey) {
+    return invalid(`It is stored with another storage key: ${storedKey}.`);
+  }
+
+  const fingerprint = readNullableString(value, "fingerprint");
+  const base = {
+    createdAt: readNullableDate(value, "createdAt") ?? new Date(0),
+    expiresAt: readNullableDate(value, "expiresAt"),
+    fingerprint:
+      fingerprint == null ? null : createIdempotencyFingerprint(fingerprint),
+    idempotencyKey: readString(value, "idempotencyKey"),
+    requestMethod: readString(value, "requestMethod"),
+    requestPath: readString(value, "requestPath"),
+    requestQuery: readNullableString(value, "requestQuery") ?? "",
+    scope: readNullableString(value, "scope"),
+    storageKey,
+  };
+
+  const lockedAt = readNullableDate(value, "lockedAt");
+  // A lock acquired before lock tokens were introduced stays locked until its lease expires.
+  const lockToken =
+    readNullableString(value, "lockToken") ??
+    (lockedAt == null
+      ? null
+      : `${LEGACY_LOCK_TOKEN_PREFIX}${lockedAt.toISOString()}`);
+  const response = readResponse(value);
+
+  if (lockedAt != null && lockToken != null) {
+    return response == null
+      ? { ...base, lockedAt, lockToken, response }
+      : invalid("A request with a response must not be locked.");
+  }
+  if (lockToken != null) {
+    return invalid("lockedAt must be set for a request with lockToken.");
+  }
+
+  return response == null
+    ? { ...base, lockedAt: null, lockToken: null, response: null }
+    : { ...base, lockedAt: null, lockToken: null, response };
+};
@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { UnProcessedIdempotentRequest } from "../idempotent-request";
+
+import { createStorageKey } from "../brand";
+import {
+  IdempotencyKeyStorageError,
+  UnsafeImplementationError,
+} from "../error";
+import { createInMemoryStorageAdapter } from "./in-memory";
+import { sweepExpiredIdempotentRequests } from "./sweep";
+
+const createRequest = (
+  key: string,
+  expiresAt: Date | null,
+): UnProcessedIdempotentRequest => ({
+  createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  expiresAt,
+  fingerprint: null,
+  idempotencyKey: key,
+  lockedAt: null,
+  lockToken: null,
+  requestMethod: "POST",
+  requestPath: "/api/test",
+  requestQuery: "",
+  response: null,
+  scope: null,
+  storageKey: createStorageKey(key),
+});
+
+describe("sweepExpiredIdempotentRequests", () => {
+  const expiresAt = new Date("2024-01-01T01:00:00.000Z");
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("deletes all expired requests", async () => {
+    const adapter = createInMemoryStorageAdapter();
+    for (const key of ["key1", "key2", "key3"]) {
+      await adapter.save(createRequest(key, expiresAt));
+    }
+    await adapter.save(createRequest("live", null));
+
+    const result = await sweepExpiredIdempotentRequests(adapter, {
+      batchSize: 2,
+      now: expiresAt,
+    });
+
+    expect(result).toStrictEqual({
+      deleted: 3,
+      done: true,
+      invalidStorageKeys: [],
+    });
+    expect(await adapter.get(createStorageKey("key1"))).toBeNull();
+    expect(await adapter.get(createStorageKey("live"))).not.toBeNull();
+  });
+
+  it("stops after maxBatches", async () => {
+    const adapter = createInMemoryStorageAdapter();
+    for (const key of ["key1", "key2", "key3"]) {
+      await adapter.save(createRequest(key, expiresAt));
+    }
+
+    const result = await sweepExpiredIdempotentRequests(adapter, {
+      batchSize: 1,
+      maxBatches: 2,
+      now: expiresAt,
+    });
+
+    expect(result).toStrictEqual({
+      deleted: 2,
+      done: false,
+      invalidStorageKeys: [],
+    });
+  });
+
+  it("does not delete a request stored again after it is listed", async () => {
+    const storedAgain = createRequest(
+      "key1",
+      new Date("2024-01-01T02:00:00.000Z"),
+    );
+    const adapter = {
+      delete: vi.fn(),
+      get: vi.fn().mockResolvedValue(storedAgain),
+      listExpired: vi.fn().mockResolvedValue({
+        cursor: null,
+        storageKeys: [storedAgain.storageKey],
+      }),
+      save: vi.fn(),
+      update: vi.fn(),
+    };
+
+    const result = await sweepExpiredIdempotentRequests(adapter, {
+      now: expiresAt,
+    });
+
+    expect(result).toStrictEqual({
+      deleted: 0,
+      done: true,
+      invalidStorageKeys: [],
+    });
+    expect(adapter.delete).not.toHaveBeenCalled();
+  });
+
+  it("skips and reports an invalid stored request, and sweeps the rest", async () => {
+    const invalidKey = createStorageKey("invalid");
+    const expiredRequest = createRequest("key1", expiresAt);
+    const storedRequests = new Map<string, unknown>([
+      [expiredRequest.storageKey, expiredRequest],
+      [invalidKey, { storageKey: invalidKey }],
+    ]);
+    const adapter = {
+      delete: vi.fn(),
+      get: vi
+        .fn()
+        .mockImplementation((storageKey: string) =>
+          storedRequests.get(storageKey),
+        ),
+      listExpired: vi
+        .fn()
+        .mockResolvedValueOnce({ cursor: "1", storageKeys: [invalidKey] })
+        .mockResolvedValueOnce({
+          cursor: null,
+          storageKeys: [expiredRequest.storageKey],
+        }),
+      save: vi.fn(),
+      update: vi.fn(),
+    };
+
+    const result = await sweepExpiredIdempotentRequests(adapter, {
+      now: expiresAt,
+    });
+
+    expect(result).toStrictEqual({
+      deleted: 1,
+      done: true,
+      invalidStorageKeys: [invalidKey],
+    });
+    expect(adapter.delete).toHaveBeenCalledExactlyOnceWith(
+      expiredRequest.storageKey,
+    );
+  });
+
+  it("does not count a request already expired by the storage", async () => {
+    const storageKey = createStorageKey("key1");
+    const adapter = {
+      delete: vi.fn(),
+      get: vi.fn().mockResolvedValue(null),
+      listExpired: vi
+        .fn()
+        .mockResolvedValue({ cursor: null, storageKeys: [storageKey] }),
+      save: vi.fn(),
+      update: vi.fn(),
+    };
+
+    const result = await sweepExpiredIdempotentRequests(adapter, {
+      now: expiresAt,
+    });
+
+    expect(result).toStrictEqual({
+      deleted: 0,
+      done: true,
+      invalidStorageKeys: [],
+    });
+  });
+
+  it("throws UnsafeImplementationError if the adapter does not implement listExpired", async () => {
+    const adapter = { get: vi.fn(), save: vi.fn(), update: vi.fn() };
+
+    await expect(sweepExpiredIdempotentRequests(adapter)).rejects.toThrowError(
+      UnsafeImplementationError,
+    );
+  });
+
+  it("throws UnsafeImplementationError if batchSize is not a positive integer", async () => {
+    await expect(
+      sweepExpiredIdempotentRequests(createInMemoryStorageAdapter(), {
+        batchSize: 0,
+      }),
+    ).rejects.toThrowError(UnsafeImplementationError);
+  });
+
+  it("throws IdempotencyKeyStorageError if the adapter fails", async () => {
+    const adapterError = new Error("Adapter listExpired failed");
+    const adapter = {
+      delete: vi.fn(),
+      get: vi.fn(),
+      listExpired: vi.fn().mockRejectedValue(adapterError),
+      save: vi.fn(),
+      update: vi.fn(),
+    };
+
+    await expect(sweepExpiredIdempotentRequests(adapter)).rejects.toThrowError(
+      new IdempotencyKeyStorageError(
+        "Failed to sweep the expired idempotent requests.",
+        { cause: adapterError },
+      ),
+    );
+  });
+});
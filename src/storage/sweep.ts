@@ -0,0 +1,159 @@
+import type { StorageKey } from "../brand";
+import type { IdempotentRequest } from "../idempotent-request";
+import type { IdempotentRequestStorageAdapter } from "./adapter";
+
+import {
+  IdempotencyKeyStorageError,
+  UnsafeImplementationError,
+} from "../error";
+import { isRequestExpired } from "../retention";
+import { parseStoredRequest } from "./record";
+
+export interface SweepExpiredOptions {
+  /**
+   * Number of storage keys listed at once
+   *
+   * @default 100
+   */
+  batchSize?: number;
+
+  /**
+   * Maximum number of pages to sweep
+   *
+   * Useful to bound the duration of a scheduled job. The rest is swept in the next run.
+   *
+   * @default Infinity
+   */
+  maxBatches?: number;
+
+  /**
+   * Current time. Requests expired at this time are deleted.
+   *
+   * @default new Date()
+   */
+  now?: Date;
+}
+
+export interface SweepExpiredResult {
+  /**
+   * Number of deleted requests
+   */
+  deleted: number;
+
+  /**
+   * Whether all expired requests are swept. `false` if `maxBatches` is reached.
+   */
+  done: boolean;
+
+  /**
+   * Storage keys of the listed requests which are not valid stored requests.
+   *
+   * They are left in the storage, so that they can be inspected.
+   */
+  invalidStorageKeys: StorageKey[];
+}
+
+/**
+ * Delete expired requests from the storage.
+ *
+ * Run this periodically, e.g. from a cron job or a scheduled handler of Cloudflare Workers,
+ * if the storage does not expire requests natively.
+ * The adapter must implement `listExpired` and `delete`.
+ *
+ * A listed request is fetched again before it is deleted,
+ * so that a request stored again with the same storage key is not deleted.
+ * An invalid stored request does not stop the sweep. It is skipped and reported in `invalidStorageKeys`.
+ *
+ * @example
+ * ```ts
+ * export default {
+ *   async scheduled(_controller, env) {
+ *     await sweepExpiredIdempotentRequests(createAdapter(env), { maxBatches: 10 });
+ *   },
+ * };
+ * ```
+ *
+ * @param adapter - Storage adapter
+ * @param options - Sweep options
+ * @returns The number of deleted requests, whether all expired requests are swept, and the invalid requests
+ * @throws {UnsafeImplementationError}
+ * If the adapter does not implement `listExpired` or `delete`, or the options are invalid.
+ * @throws {IdempotencyKeyStorageError}
+ * If the storage operation fails.
+ */
+export const sweepExpiredIdempotentRequests = async (
+  adapter: IdempotentRequestStorageAdapter,
+  {
+    batchSize = 100,
+    maxBatches = Infinity,
+    now = new Date(),
+  }: SweepExpiredOptions = {},
+): Promise<SweepExpiredResult> => {
+  if (!adapter.listExpired || !adapter.delete) {
+    throw new UnsafeImplementationError(
+      "The storage adapter must implement `listExpired` and `delete` to sweep expired requests.",
+    );
+  }
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new UnsafeImplementationError(
+      `The batch size must be a positive integer: ${batchSize}.`,
+    );
+  }
+  if (
+    maxBatches !== Infinity &&
+    (!Number.isInteger(maxBatches) || maxBatches < 1)
+  ) {
+    throw new UnsafeImplementationError(
+      `The maximum number of batches must be a positive integer: ${maxBatches}.`,
+    );
+  }
+
+  let deleted = 0;
+  const invalidStorageKeys: StorageKey[] = [];
+  let cursor: string | null = null;
+
+  for (let batch = 0; batch < maxBatches; batch++) {
+    try {
+      const page = await adapter.listExpired({
+        before: now,
+        cursor,
+        limit: batchSize,
+      });
+
+      for (const storageKey of page.storageKeys) {
+        const storedRequest: unknown = await adapter.get(storageKey);
+        if (storedRequest == null) {
+          // Expired natively by the storage. Delete it anyway, in case it is only hidden from `get`.
+          await adapter.delete(storageKey);
+          continue;
+        }
+
+        let request: IdempotentRequest;
+        try {
+          request = parseStoredRequest(storedRequest, storageKey);
+        } catch {
+          invalidStorageKeys.push(storageKey);
+          continue;
+        }
+
+        if (isRequestExpired(request, now)) {
+          await adapter.delete(storageKey);
+          deleted++;
+        }
+      }
+
+      ({ cursor } = page);
+    } catch (error) {
+      throw new IdempotencyKeyStorageError(
+        "Failed to sweep the expired idempotent requests.",
+        { cause: error },
+      );
+    }
+
+    if (cursor == null) {
+      return { deleted, done: true, invalidStorageKeys };
+    }
+  }
+
+  return { deleted, done: false, invalidStorageKeys };
+};
@@ -2,6 +2,7 @@ import { describe, expect, it } from "vitest";
 
 import type { IdempotencyActivationStrategy } from "./strategy";
 
+import { createQueryKeyExtractor } from "./key-extractor";
 import { prepareActivationStrategy } from "./strategy";
 
 const createMockRequest = (
@@ -39,6 +40,20 @@ describe("prepareActivationStrategy", () => {
     expect(await strategy(mockRequestWithKey)).toBe(true);
   });
 
+  it("should check existence of the key with the key extractor when strategy is 'opt-in'", async () => {
+    const strategy = prepareActivationStrategy(
+      "opt-in",
+      createQueryKeyExtractor({ name: "idempotency_key" }),
+    );
+
+    expect(
+      await strategy(new Request("http://example.com/?idempotency_key=key")),
+    ).toBe(true);
+    expect(
+      await strategy(createMockRequest({ "idempotency-key": "key" })),
+    ).toBe(false);
+  });
+
   it("should return the function as is when strategy is a function", async () => {
     const strategy = prepareActivationStrategy(
       (req) => req.headers.get("X-Enable-Idempotency") === "true",
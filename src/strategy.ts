@@ -1,5 +1,8 @@
+import type { KeyExtractor } from "./key-extractor";
 import type { MaybePromise } from "./utils/types";
 
+import { createHeaderKeyExtractor } from "./key-extractor";
+
 /**
  * Function type for defining the condition for activating idempotency processing
  *
@@ -26,17 +29,19 @@ export type IdempotencyActivationStrategy =
  * and if specified as a function, return it as is
  *
  * @param strategy The strategy.
+ * @param keyExtractor The extractor used by the `"opt-in"` strategy to check existence of the key.
  * @returns Function that returns a boolean indicating whether to apply idempotency processing.
  */
 export const prepareActivationStrategy = (
   strategy: IdempotencyActivationStrategy,
+  keyExtractor: KeyExtractor = createHeaderKeyExtractor(),
 ): IdempotencyActivationStrategyFunction => {
   if (typeof strategy === "function") {
     return strategy;
   }
 
   if (strategy === "opt-in") {
-    return OPT_IN_WITH_KEY;
+    return createOptInWithKey(keyExtractor);
   }
 
   if (strategy === "always") {
@@ -55,7 +60,13 @@ const ALWAYS_ACTIVE = (() =>
   true) satisfies IdempotencyActivationStrategyFunction;
 
 /**
- * Strategy for applying idempotency processing only if the Idempotency-Key header exists
+ * Strategy for applying idempotency processing only if the key exists
+ *
+ * A malformed key is treated as existing, so that the client is told about it.
  */
-const OPT_IN_WITH_KEY: IdempotencyActivationStrategyFunction = (request) =>
-  typeof request.headers.get("Idempotency-Key") === "string";
+const createOptInWithKey =
+  (keyExtractor: KeyExtractor): IdempotencyActivationStrategyFunction =>
+  async (request) => {
+    const { type } = await keyExtractor.extract(request);
+    return type !== "missing";
+  };
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import { captureStream } from "./stream";
+
+const createStream = (chunks: string[], error?: Error) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(new TextEncoder().encode(chunk));
+      }
+
+      if (error) {
+        controller.error(error);
+      } else {
+        controller.close();
+      }
+    },
+  });
+
+describe("captureStream", () => {
+  it("captures all chunks of the stream", async () => {
+    const result = await captureStream(
+      createStream(['{"id":1}\n', '{"id":2}\n']),
+      1024,
+    );
+
+    expect(result).toStrictEqual({
+      body: new TextEncoder().encode('{"id":1}\n{"id":2}\n'),
+      type: "complete",
+    });
+  });
+
+  it("captures a stream exactly at the max body size", async () => {
+    const result = await captureStream(createStream(["1234", "5678"]), 8);
+
+    expect(result.type).toBe("complete");
+  });
+
+  it("returns too_large when the stream exceeds the max body size", async () => {
+    const result = await captureStream(createStream(["1234", "56789"]), 8);
+
+    expect(result).toStrictEqual({ type: "too_large" });
+  });
+
+  it("returns the error when the stream errors", async () => {
+    const error = new Error("stream failed");
+
+    const result = await captureStream(createStream(["1234"], error), 1024);
+
+    expect(result).toStrictEqual({ error, type: "error" });
+  });
+
+  it("does not cancel the other branch of a teed stream when too large", async () => {
+    const [clientBranch, storageBranch] = createStream(["1234", "5678"]).tee();
+
+    const result = await captureStream(storageBranch, 4);
+
+    expect(result).toStrictEqual({ type: "too_large" });
+    expect(await new Response(clientBranch).text()).toBe("12345678");
+  });
+});
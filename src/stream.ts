@@ -0,0 +1,59 @@
+export type StreamCaptureResult =
+  | {
+      body: Uint8Array;
+      type: "complete";
+    }
+  | {
+      error: unknown;
+      type: "error";
+    }
+  | {
+      type: "too_large";
+    };
+
+/**
+ * Read a stream to the end and buffer its bytes.
+ *
+ * If the stream exceeds `maxBodySize`, the stream is cancelled and the buffered bytes are discarded.
+ * When the stream is a branch of `ReadableStream.tee()`, cancelling it does not affect the other branch.
+ *
+ * @param stream - The stream to capture
+ * @param maxBodySize - Maximum size of the captured bytes
+ * @returns The captured bytes, or the reason why the stream could not be captured
+ */
+export const captureStream = async (
+  stream: ReadableStream<Uint8Array>,
+  maxBodySize: number,
+): Promise<StreamCaptureResult> => {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      size += value.byteLength;
+      if (size > maxBodySize) {
+        await reader.cancel();
+        return { type: "too_large" };
+      }
+
+      chunks.push(value);
+    }
+  } catch (error) {
+    return { error, type: "error" };
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return { body, type: "complete" };
+};
@@ -0,0 +1,501 @@
+import { describe, expect, it } from "vitest";
+
+import type { StorageKey } from "../brand";
+import type {
+  IdempotentRequest,
+  ProcessedIdempotentRequest,
+  ProcessingIdempotentRequest,
+  UnProcessedIdempotentRequest,
+} from "../idempotent-request";
+import type {
+  IdempotentRequestStorageAdapter,
+  ListExpiredResult,
+} from "../storage/adapter";
+import type { MaybePromise } from "../utils/types";
+
+import { createIdempotencyFingerprint, createStorageKey } from "../brand";
+import { parseStoredRequest } from "../storage/record";
+
+/**
+ * Dates are whole seconds, so that storages with second precision can round-trip them.
+ */
+const createUnProcessedRequest = (): UnProcessedIdempotentRequest => {
+  const idempotencyKey = crypto.randomUUID();
+
+  return {
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    expiresAt: new Date("2100-01-01T00:00:00.000Z"),
+    fingerprint: createIdempotencyFingerprint("fingerprint"),
+    idempotencyKey,
+    lockedAt: null,
+    lockToken: null,
+    requestMethod: "POST",
+    requestPath: "/api/test",
+    requestQuery: "a=1&b=2",
+    response: null,
+    scope: "tenant-a",
+    storageKey: createStorageKey(`conformance:${idempotencyKey}`),
+  };
+};
+
+/**
+ * The request expired a minute ago, so that the `before` boundary can be checked in whole seconds.
+ */
+const createExpiredRequest = () => ({
+  ...createUnProcessedRequest(),
+  expiresAt: new Date(Math.floor(Date.now() / 1000) * 1000 - 60_000),
+});
+
+const lockRequest = (
+  request: IdempotentRequest,
+  lockToken: string = crypto.randomUUID(),
+): ProcessingIdempotentRequest => ({
+  ...request,
+  lockedAt: new Date("2024-01-01T00:00:01.000Z"),
+  lockToken,
+  response: null,
+});
+
+const completeRequest = (
+  request: IdempotentRequest,
+  response: ProcessedIdempotentRequest["response"],
+): ProcessedIdempotentRequest => ({
+  ...request,
+  lockedAt: null,
+  lockToken: null,
+  response,
+});
+
+/**
+ * Get a stored request as the middleware does, i.e. validated and with dates revived.
+ */
+const getStoredRequest = async (
+  adapter: IdempotentRequestStorageAdapter,
+  storageKey: StorageKey,
+): Promise<IdempotentRequest | null> => {
+  const storedRequest: unknown = await adapter.get(storageKey);
+  return storedRequest == null
+    ? null
+    : parseStoredRequest(storedRequest, storageKey);
+};
+
+/**
+ * List all pages of `listExpired`, checking that no page exceeds the limit.
+ */
+const listAllExpired = async (
+  adapter: IdempotentRequestStorageAdapter,
+  before: Date,
+  limit = 10,
+): Promise<string[]> => {
+  const storageKeys: string[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page: ListExpiredResult | undefined = await adapter.listExpired?.({
+      before,
+      cursor,
+      limit,
+    });
+    if (page == null) {
+      break;
+    }
+    expect(page.storageKeys.length).toBeLessThanOrEqual(limit);
+    storageKeys.push(...page.storageKeys);
+    ({ cursor } = page);
+  } while (cursor != null);
+
+  return storageKeys;
+};
+
+/**
+ * Run the conformance tests of a storage adapter with vitest.
+ *
+ * Each test stores requests with random storage keys, so the adapter may share one storage across tests.
+ * Stored requests are validated as the middleware does, so dates may be returned as strings.
+ * Tests of optional methods are skipped if the adapter does not implement them.
+ *
+ * @example
+ * ```ts
+ * // my-adapter.test.ts
+ * import { runStorageAdapterConformanceTests } from "universal-idempotent-request/testing";
+ *
+ * runStorageAdapterConformanceTests(() => createMyAdapter(testDatabase));
+ * ```
+ *
+ * @param createAdapter - Factory of the adapter under test, called for each test
+ */
+export const runStorageAdapterConformanceTests = (
+  createAdapter: () => MaybePromise<IdempotentRequestStorageAdapter>,
+): void => {
+  describe("storage adapter conformance", () => {
+    describe("get", () => {
+      it("returns null for an unknown request", async () => {
+        const adapter = await createAdapter();
+
+        expect(
+          await adapter.get(createStorageKey(`unknown:${crypto.randomUUID()}`)),
+        ).toBeNull();
+      });
+    });
+
+    describe("round-trip", () => {
+      it("round-trips an unprocessed request", async () => {
+        const adapter = await createAdapter();
+        const request = createUnProcessedRequest();
+
+        await adapter.save(request);
+
+        expect(
+          await getStoredRequest(adapter, request.storageKey),
+        ).toStrictEqual(request);
+      });
+
+      it("round-trips a processing request", async () => {
+        const adapter = await createAdapter();
+        const request = createUnProcessedRequest();
+        const lockedRequest = lockRequest(request);
+
+        await adapter.save(request);
+        await adapter.update(lockedRequest);
+
+        expect(
+          await getStoredRequest(adapter, request.storageKey),
+        ).toStrictEqual(lockedRequest);
+      });
+
+      it("round-trips a processed request", async () => {
+        const adapter = await createAdapter();
+        const request = createUnProcessedRequest();
+        const processedRequest = completeRequest(request, {
+          body: '{"message":"こんにちは"}',
+          bodyEncoding: "text",
+          headers: { "content-type": "application/json", "x-custom": "1" },
+          status: 201,
+          statusText: "Created",
+        });
+
+        await adapter.save(request);
+        await adapter.update(lockRequest(request));
+        await adapter.update(processedRequest);
+
+        expect(
+          await getStoredRequest(adapter, request.storageKey),
+        ).toStrictEqual(processedRequest);
+      });
+
+      it("returns dates as Date objects or date strings", async () => {
+        const adapter = await createAdapter();
+        const request = createUnProcessedRequest();
+        const lockedRequest = lockRequest(request);
+
+        await adapter.save(request);
+        await adapter.update(lockedRequest);
+        const storedRequest = await getStoredRequest(
+          adapter,
+          request.storageKey,
+        );
+
+        expect(storedRequest?.createdAt).toStrictEqual(request.createdAt);
+        expect(storedRequest?.expiresAt).toStrictEqual(request.expiresAt);
+        expect(storedRequest?.lockedAt).toStrictEqual(lockedRequest.lockedAt);
+      });
+
+      it("round-trips a request that never expires", async () => {
+        const adapter = await createAdapter();
+        const request = { ...createUnProcessedRequest(), expiresAt: null };
+
+        await adapter.save(request);
+
+        expect(
+          await getStoredRequest(adapter, request.storageKey),
+        ).toStrictEqual(request);
+      });
+
+      it("round-trips a binary response body", async () => {
+        const adapter = await createAdapter();
+        const request = createUnProcessedRequest();
+        const processedRequest = completeRequest(request, {
+          // Bytes 0, 255, 254 and 128, which are not valid UTF-8
+          body: "AP/+gA==",
+          bodyEncoding: "base64",
+          headers: { "content-type": "application/octet-stream" },
+          status: 200,
+          statusText: "OK",
+        });
+
+        await adapter.save(request);
+        await adapter.update(processedRequest);
+
+        expect(
+          await getStoredRequest(adapter, request.storageKey),
+        ).toStrictEqual(processedRequest);
+      });
+    });
+
+    describe("expiration", () => {
+      it("returns an expired request unchanged, or null if it is expired natively", async () => {
+        const adapter = await createAdapter();
+        const request = createExpiredRequest();
+
+        await adapter.save(request);
+
+        // The middleware treats an expired request as absent, so both are acceptable.
+        expect([null, request]).toContainEqual(
+          await getStoredRequest(adapter, request.storageKey),
+        );
+      });
+
+      it("keeps expiresAt through later updates", async () => {
+        const adapter = await createAdapter();
+        const request = {
+          ...createUnProcessedRequest(),
+          expiresAt: new Date(Math.floor(Date.now() / 1000) * 1000 + 3_600_000),
+        };
+        const processedRequest = completeRequest(request, {
+          body: "",
+          bodyEncoding: "text",
+          headers: {},
+          status: 204,
+          statusText: "No Content",
+        });
+
+        await adapter.save(request);
+        await adapter.update(lockRequest(request));
+        await adapter.update(processedRequest);
+
+        expect(
+          await getStoredRequest(adapter, request.storageKey),
+        ).toStrictEqual(processedRequest);
+      });
+
+      it("lists expired requests, but not live requests", async ({ skip }) => {
+        const adapter = await createAdapter();
+        if (!adapter.listExpired) {
+          skip();
+        }
+
+        const expiredRequest = createExpiredRequest();
+        const liveRequest = createUnProcessedRequest();
+        await adapter.save(expiredRequest);
+        await adapter.save(liveRequest);
+
+        const storageKeys = await listAllExpired(adapter, new Date());
+
+        expect(storageKeys).toContain(expiredRequest.storageKey);
+        expect(storageKeys).not.toContain(liveRequest.storageKey);
+      });
+
+      it("lists requests expired at or before `before`", async ({ skip }) => {
+        const adapter = await createAdapter();
+        if (!adapter.listExpired) {
+          skip();
+        }
+
+        const request = createExpiredRequest();
+        await adapter.save(request);
+        const expiresAt = request.expiresAt.getTime();
+
+        expect(await listAllExpired(adapter, new Date(expiresAt))).toContain(
+          request.storageKey,
+        );
+        expect(
+          await listAllExpired(adapter, new Date(expiresAt - 1000)),
+        ).not.toContain(request.storageKey);
+      });
+
+      it("keeps listing a request as expired after a later update", async ({
+        skip,
+      }) => {
+        const adapter = await createAdapter();
+        if (!adapter.listExpired) {
+          skip();
+        }
+
+        const request = createExpiredRequest();
+        await adapter.save(request);
+        await adapter.update(lockRequest(request));
+
+        expect(await listAllExpired(adapter, new Date())).toContain(
+          request.storageKey,
+        );
+      });
+
+      it("pages through expired requests with the cursor", async ({ skip }) => {
+        const adapter = await createAdapter();
+        if (!adapter.listExpired) {
+          skip();
+        }
+
+        const requests = Array.from({ length: 3 }, createExpiredRequest);
+        for (const request of requests) {
+          await adapter.save(request);
+        }
+
+        const storageKeys = await listAllExpired(adapter, new Date(), 1);
+
+        for (const request of requests) {
+          expect(
+            storageKeys.filter(
+              (storageKey) => storageKey === request.storageKey,
+            ),
+          ).toHaveLength(1);
+        }
+      });
+    });
+
+    describe("delete", () => {
+      it("deletes a request", async ({ skip }) => {
+        const adapter = await createAdapter();
+        if (!adapter.delete) {
+          skip();
+        }
+
+        const request = createUnProcessedRequest();
+        await adapter.save(request);
+        await adapter.delete?.(request.storageKey);
+
+        expect(await adapter.get(request.storageKey)).toBeNull();
+      });
+    });
+
+    describe("lock", () => {
+      it("lets exactly one of concurrent requests acquire a new lock", async ({
+        skip,
+      }) => {
+        const adapter = await createAdapter();
+        if (!adapter.lock) {
+          skip();
+        }
+
+        const request = createUnProcessedRequest();
+        const lockedRequests = Array.from({ length: 5 }, () =>
+          lockRequest(request),
+        );
+
+        const results = await Promise.all(
+          lockedRequests.map(
+            async (lockedRequest) => await adapter.lock?.(lockedRequest, null),
+          ),
+        );
+
+        expect(results.filter(Boolean)).toHaveLength(1);
+        const winner = lockedRequests[results.indexOf(true)];
+        expect(
+          await getStoredRequest(adapter, request.storageKey),
+        ).toStrictEqual(winner);
+      });
+
+      it("lets exactly one of concurrent requests take over a lock", async ({
+        skip,
+      }) => {
+        const adapter = await createAdapter();
+        if (!adapter.lock) {
+          skip();
+        }
+
+        const abandonedRequest = lockRequest(createUnProcessedRequest());
+        expect(await adapter.lock?.(abandonedRequest, null)).toBe(true);
+
+        const results = await Promise.all(
+          Array.from(
+            { length: 5 },
+            async () =>
+              await adapter.lock?.(
+                lockRequest(abandonedRequest),
+                abandonedRequest.lockToken,
+              ),
+          ),
+        );
+
+        expect(results.filter(Boolean)).toHaveLength(1);
+      });
+
+      it("lets exactly one of concurrent requests replace an expired request", async ({
+        skip,
+      }) => {
+        const adapter = await createAdapter();
+        if (!adapter.lock) {
+          skip();
+        }
+
+        const request = createExpiredRequest();
+        const expiredRequest = completeRequest(request, {
+          body: "",
+          bodyEncoding: "text",
+          headers: {},
+          status: 204,
+          statusText: "No Content",
+        });
+        await adapter.save(request);
+        await adapter.update(expiredRequest);
+
+        const results = await Promise.all(
+          Array.from(
+            { length: 5 },
+            async () =>
+              await adapter.lock?.(
+                lockRequest({
+                  ...expiredRequest,
+                  expiresAt: new Date("2100-01-01T00:00:00.000Z"),
+                }),
+                null,
+                expiredRequest,
+              ),
+          ),
+        );
+
+        expect(results.filter(Boolean)).toHaveLength(1);
+      });
+
+      it("does not lock a request with a stored response", async ({ skip }) => {
+        const adapter = await createAdapter();
+        if (!adapter.lock) {
+          skip();
+        }
+
+        const request = createUnProcessedRequest();
+        await adapter.save(request);
+        await adapter.update(
+          completeRequest(request, {
+            body: "",
+            bodyEncoding: "text",
+            headers: {},
+            status: 204,
+            statusText: "No Content",
+          }),
+        );
+
+        expect(await adapter.lock?.(lockRequest(request), null)).toBe(false);
+      });
+    });
+
+    describe("unlock", () => {
+      it("unlocks a request only with the held lock token", async ({
+        skip,
+      }) => {
+        const adapter = await createAdapter();
+        if (!adapter.lock || !adapter.unlock) {
+          skip();
+        }
+
+        const request = createUnProcessedRequest();
+        const lockedRequest = lockRequest(request);
+        expect(await adapter.lock?.(lockedRequest, null)).toBe(true);
+
+        expect(await adapter.unlock?.(request, crypto.randomUUID())).toBe(
+          false,
+        );
+        expect(
+          await getStoredRequest(adapter, request.storageKey),
+        ).toStrictEqual(lockedRequest);
+
+        expect(await adapter.unlock?.(request, lockedRequest.lockToken)).toBe(
+          true,
+        );
+        expect(
+          await getStoredRequest(adapter, request.storageKey),
+        ).toStrictEqual(request);
+      });
+    });
+  });
+};
@@ -0,0 +1,11 @@
+/**
+ * Encode bytes as a lowercase hexadecimal string.
+ *
+ * @param bytes - Bytes to encode
+ * @returns Hexadecimal string
+ */
+export const encodeHex = (bytes: ArrayBuffer | Uint8Array): string => {
+  return Array.from(new Uint8Array(bytes), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+};
@@ -0,0 +1,13 @@
+/**
+ * Parse the request body as form data.
+ *
+ * `Request#formData` is deprecated in the Node.js types, which recommend a streaming parser for multipart bodies.
+ * The Web standard parser is used anyway, as it works on all runtimes without dependencies.
+ *
+ * @param request - Request whose body is form-urlencoded or multipart
+ * @returns Parsed form data
+ */
+export const parseFormData = async (request: Request): Promise<FormData> => {
+  // eslint-disable-next-line @typescript-eslint/no-deprecated
+  return await request.formData();
+};